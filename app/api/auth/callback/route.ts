@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, isMfaRequired } from '@/lib/auth'
+import { config, isFeatureEnabled } from '@/lib/config'
+import { mergeGuestCartOnSignIn } from '@/lib/cart'
+import {
+  OAUTH_VERIFIER_COOKIE,
+  getMfaStepUrl,
+  getSafeRedirectPath,
+  sessionCookieOptions,
+  setMfaPendingCookie,
+  setSessionCookies
+} from '@/lib/session'
+
+// GET /api/auth/callback - Exchange the OAuth authorization code for a session
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const redirect = getSafeRedirectPath(searchParams.get('redirect'))
+
+  // Send the user back to the login page with an error code they can show
+  const failure = (code: string) => {
+    const loginUrl = new URL('/auth/login', config.app.url)
+    loginUrl.searchParams.set('error', code)
+    loginUrl.searchParams.set('redirect', redirect)
+    const response = NextResponse.redirect(loginUrl)
+    response.cookies.set(OAUTH_VERIFIER_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 })
+    return response
+  }
+
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const code = searchParams.get('code')
+
+    // The provider reports denied consent and similar problems via ?error=
+    if (!code || searchParams.get('error')) {
+      return failure('oauth_denied')
+    }
+
+    const codeVerifier = request.cookies.get(OAUTH_VERIFIER_COOKIE)?.value
+    const result = await auth.exchangeOAuthCode(code, codeVerifier)
+
+    // Hold the session back until the second factor is checked, as /api/auth/login does
+    if (isMfaRequired(result)) {
+      const response = NextResponse.redirect(getMfaStepUrl(redirect))
+      response.cookies.set(OAUTH_VERIFIER_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 })
+      await setMfaPendingCookie(response, {
+        accessToken: result.session.accessToken,
+        refreshToken: result.session.refreshToken,
+        factorId: result.factorId
+      })
+      return response
+    }
+
+    const { user, session } = result
+    const response = NextResponse.redirect(new URL(redirect, config.app.url))
+    response.cookies.set(OAUTH_VERIFIER_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 })
+
+    if (session) {
+      setSessionCookies(response, session)
+      return mergeGuestCartOnSignIn(request, response, user.id)
+    }
+
+    return response
+  } catch (error) {
+    console.error('OAuth callback error:', error)
+    return failure('oauth_failed')
+  }
+}
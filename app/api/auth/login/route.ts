@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { auth } from '@/lib/auth'
+import { auth, isMfaRequired } from '@/lib/auth'
 import { isFeatureEnabled } from '@/lib/config'
+import { mergeGuestCartOnSignIn } from '@/lib/cart'
+import { setMfaPendingCookie, setSessionCookies } from '@/lib/session'
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,27 +23,36 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const user = await auth.signIn(email, password)
+    const result = await auth.signIn(email, password)
 
-    if (!user) {
+    if (!result) {
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       )
     }
 
-    // Set session cookie (implement based on your auth provider)
-    const response = NextResponse.json({ user })
-    
-    // Example for Supabase
-    if (isProviderEnabled('supabase')) {
-      // Set Supabase session cookie
-      response.cookies.set('sb-access-token', 'session-token', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 7 // 7 days
+    // Hold the password-only session back until /api/auth/mfa/verify succeeds
+    if (isMfaRequired(result)) {
+      const response = NextResponse.json({ mfaRequired: true })
+      await setMfaPendingCookie(response, {
+        accessToken: result.session.accessToken,
+        refreshToken: result.session.refreshToken,
+        factorId: result.factorId
       })
+      return response
+    }
+
+    const { user, session } = result
+    const response = NextResponse.json({
+      user,
+      sessionExpiresAt: session?.expiresAt ?? null
+    })
+
+    // Store the session in httpOnly cookies that expire with the tokens
+    if (session) {
+      setSessionCookies(response, session)
+      return mergeGuestCartOnSignIn(request, response, user.id)
     }
 
     return response
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { isFeatureEnabled } from '@/lib/config'
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, clearSessionCookies } from '@/lib/session'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,21 +13,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    await auth.signOut()
+    const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
 
-    // Clear session cookie
-    const response = NextResponse.json({ success: true })
-    
-    // Clear Supabase session cookie
-    if (isProviderEnabled('supabase')) {
-      response.cookies.set('sb-access-token', '', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 0
+    // Revoke the refresh token server-side, then clear the session cookies
+    if (accessToken || refreshToken) {
+      await auth.signOut({
+        accessToken: accessToken || '',
+        refreshToken: refreshToken || ''
       })
     }
 
+    const response = NextResponse.json({ success: true })
+    clearSessionCookies(response)
+
     return response
   } catch (error) {
     console.error('Logout error:', error)
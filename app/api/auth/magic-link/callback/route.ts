@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, isMfaRequired } from '@/lib/auth'
+import { config, isFeatureEnabled } from '@/lib/config'
+import { mergeGuestCartOnSignIn } from '@/lib/cart'
+import { getMfaStepUrl, getSafeRedirectPath, setMfaPendingCookie, setSessionCookies } from '@/lib/session'
+
+// GET /api/auth/magic-link/callback?token=...&redirect=/dashboard - Sign in from the emailed link
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const redirect = getSafeRedirectPath(searchParams.get('redirect'))
+
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const token = searchParams.get('token')
+
+    if (!token) {
+      throw new Error('Missing magic link token')
+    }
+
+    const result = await auth.verifyMagicLink(token)
+
+    // Following the link only stands in for the password; the second factor is still due
+    if (isMfaRequired(result)) {
+      const response = NextResponse.redirect(getMfaStepUrl(redirect))
+      await setMfaPendingCookie(response, {
+        accessToken: result.session.accessToken,
+        refreshToken: result.session.refreshToken,
+        factorId: result.factorId
+      })
+      return response
+    }
+
+    const { user, session } = result
+    const response = NextResponse.redirect(new URL(redirect, config.app.url))
+
+    if (session) {
+      setSessionCookies(response, session)
+      return mergeGuestCartOnSignIn(request, response, user.id)
+    }
+
+    return response
+  } catch (error) {
+    console.error('Magic link callback error:', error)
+    const loginUrl = new URL('/auth/login', config.app.url)
+    loginUrl.searchParams.set('error', 'magic_link_invalid')
+    loginUrl.searchParams.set('redirect', redirect)
+    return NextResponse.redirect(loginUrl)
+  }
+}
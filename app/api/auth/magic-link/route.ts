@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { config, isFeatureEnabled } from '@/lib/config'
+import { getSafeRedirectPath } from '@/lib/session'
+
+// POST /api/auth/magic-link - Email a passwordless sign-in link
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const { email, redirect } = await request.json()
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      )
+    }
+
+    const callbackUrl = new URL('/api/auth/magic-link/callback', config.app.url)
+    callbackUrl.searchParams.set('redirect', getSafeRedirectPath(redirect))
+
+    await auth.signInWithMagicLink(email, callbackUrl.toString())
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Magic link error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
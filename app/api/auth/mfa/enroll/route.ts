@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, AuthError } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+import { getSessionTokens } from '@/lib/session'
+
+// POST /api/auth/mfa/enroll - Start TOTP enrollment for the signed-in user
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const tokens = getSessionTokens(request)
+
+    if (!tokens) {
+      return NextResponse.json(
+        { error: 'Not signed in', code: 'invalid_session' },
+        { status: 401 }
+      )
+    }
+
+    const enrollment = await auth.enrollMfa(tokens)
+
+    return NextResponse.json({ enrollment })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 401 }
+      )
+    }
+
+    console.error('MFA enroll error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, AuthError } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+import { getSessionTokens, setSessionCookies } from '@/lib/session'
+
+// POST /api/auth/mfa/enroll/verify - Confirm enrollment with the first code
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const tokens = getSessionTokens(request)
+
+    if (!tokens) {
+      return NextResponse.json(
+        { error: 'Not signed in', code: 'invalid_session' },
+        { status: 401 }
+      )
+    }
+
+    const { factorId, code } = await request.json()
+
+    if (!factorId || !code) {
+      return NextResponse.json(
+        { error: 'Factor ID and code are required' },
+        { status: 400 }
+      )
+    }
+
+    const { recoveryCodes, session } = await auth.confirmMfaEnrollment(tokens, factorId, code)
+
+    const response = NextResponse.json({
+      recoveryCodes,
+      sessionExpiresAt: session?.expiresAt ?? null
+    })
+
+    // The verified factor upgrades the session to aal2
+    if (session) {
+      setSessionCookies(response, session)
+    }
+
+    return response
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'invalid_session' ? 401 : 400 }
+      )
+    }
+
+    console.error('MFA enroll verify error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, AuthError } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+import { mergeGuestCartOnSignIn } from '@/lib/cart'
+import { clearMfaAttempts, registerMfaAttempt } from '@/lib/mfa-attempts'
+import {
+  MFA_PENDING_COOKIE,
+  clearMfaPendingCookie,
+  readMfaPendingCookie,
+  setSessionCookies
+} from '@/lib/session'
+
+// POST /api/auth/mfa/verify - Complete a sign-in with a TOTP or recovery code
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const pending = await readMfaPendingCookie(request.cookies.get(MFA_PENDING_COOKIE)?.value)
+
+    if (!pending) {
+      return NextResponse.json(
+        { error: 'Sign-in has expired, please start again', code: 'invalid_session' },
+        { status: 401 }
+      )
+    }
+
+    const { code, recoveryCode } = await request.json()
+
+    if (!code && !recoveryCode) {
+      return NextResponse.json(
+        { error: 'Code or recovery code is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await registerMfaAttempt(pending.factorId))) {
+      return NextResponse.json(
+        { error: 'Too many attempts, please try again later', code: 'too_many_attempts' },
+        { status: 429 }
+      )
+    }
+
+    const { user, session } = recoveryCode
+      ? await auth.recoverMfa(pending, recoveryCode)
+      : await auth.verifyMfa(pending, pending.factorId, code)
+
+    await clearMfaAttempts(pending.factorId)
+
+    const response = NextResponse.json({
+      user,
+      sessionExpiresAt: session?.expiresAt ?? null,
+      // Using a recovery code removes the authenticator; prompt to enroll again
+      mfaDisabled: !!recoveryCode
+    })
+
+    clearMfaPendingCookie(response)
+    if (session) {
+      setSessionCookies(response, session)
+      return mergeGuestCartOnSignIn(request, response, user.id)
+    }
+
+    return response
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 401 }
+      )
+    }
+
+    console.error('MFA verify error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
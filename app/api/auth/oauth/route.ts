@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { config, getEnabledOAuthProviders, isFeatureEnabled, type OAuthProviderName } from '@/lib/config'
+import {
+  OAUTH_VERIFIER_COOKIE,
+  OAUTH_VERIFIER_MAX_AGE,
+  getSafeRedirectPath,
+  sessionCookieOptions
+} from '@/lib/session'
+
+// GET /api/auth/oauth?provider=github&redirect=/dashboard - Start social sign-in
+export async function GET(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const provider = searchParams.get('provider') as OAuthProviderName | null
+    const redirect = getSafeRedirectPath(searchParams.get('redirect'))
+
+    if (!provider || !getEnabledOAuthProviders().includes(provider)) {
+      return NextResponse.json(
+        { error: 'OAuth provider is not enabled' },
+        { status: 400 }
+      )
+    }
+
+    const callbackUrl = new URL('/api/auth/callback', config.app.url)
+    callbackUrl.searchParams.set('redirect', redirect)
+
+    const { url, codeVerifier } = await auth.signInWithOAuth(provider, callbackUrl.toString())
+
+    const response = NextResponse.redirect(url)
+
+    if (codeVerifier) {
+      response.cookies.set(OAUTH_VERIFIER_COOKIE, codeVerifier, {
+        ...sessionCookieOptions,
+        maxAge: OAUTH_VERIFIER_MAX_AGE
+      })
+    }
+
+    return response
+  } catch (error) {
+    console.error('OAuth sign-in error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, AuthError } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+import { REFRESH_TOKEN_COOKIE, clearSessionCookies, setSessionCookies } from '@/lib/session'
+
+// POST /api/auth/refresh - Rotate the refresh token and issue a new session
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'No session', code: 'invalid_refresh_token' },
+        { status: 401 }
+      )
+    }
+
+    const { user, session } = await auth.refreshSession(refreshToken)
+
+    const response = NextResponse.json({
+      user,
+      sessionExpiresAt: session?.expiresAt ?? null
+    })
+
+    if (session) {
+      setSessionCookies(response, session)
+    }
+
+    return response
+  } catch (error) {
+    if (error instanceof AuthError) {
+      // The session is gone (or was revoked after token reuse), so drop the cookies
+      const response = NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 401 }
+      )
+      clearSessionCookies(response)
+      return response
+    }
+
+    console.error('Refresh error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
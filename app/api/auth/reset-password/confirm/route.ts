@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, AuthError } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+
+// POST /api/auth/reset-password/confirm - Set a new password with a reset token
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const { token, password } = await request.json()
+
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      )
+    }
+
+    if (password.length < 6) {
+      return NextResponse.json(
+        { error: 'Password must be at least 6 characters long' },
+        { status: 400 }
+      )
+    }
+
+    await auth.confirmPasswordReset(token, password)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      )
+    }
+
+    console.error('Confirm password reset error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+
+// POST /api/auth/reset-password - Email a password reset link
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const { email } = await request.json()
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      )
+    }
+
+    await auth.resetPassword(email)
+
+    // Same response whether or not the account exists
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Reset password error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+import { ACCESS_TOKEN_COOKIE } from '@/lib/session'
+
+// GET /api/auth/session - The signed-in user, read from the session cookie without rotating it
+export async function GET(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+    const session = accessToken ? await auth.restoreSession(accessToken) : null
+
+    // The client refreshes when this fails, so expired tokens are not an error here
+    if (!session) {
+      return NextResponse.json(
+        { error: 'No session', code: 'invalid_session' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      user: session.user,
+      sessionExpiresAt: session.expiresAt
+    })
+  } catch (error) {
+    console.error('Session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
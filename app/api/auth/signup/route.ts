@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { isFeatureEnabled } from '@/lib/config'
+import { mergeGuestCartOnSignIn } from '@/lib/cart'
+import { setSessionCookies } from '@/lib/session'
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,27 +23,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const user = await auth.signUp(email, password, name)
+    const result = await auth.signUp(email, password, name)
 
-    if (!user) {
+    if (!result) {
       return NextResponse.json(
         { error: 'Failed to create account' },
         { status: 400 }
       )
     }
 
-    // Set session cookie (implement based on your auth provider)
-    const response = NextResponse.json({ user })
-    
-    // Example for Supabase
-    if (isProviderEnabled('supabase')) {
-      // Set Supabase session cookie
-      response.cookies.set('sb-access-token', 'session-token', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 7 // 7 days
-      })
+    const { user, session } = result
+    const response = NextResponse.json({
+      user,
+      sessionExpiresAt: session?.expiresAt ?? null
+    })
+
+    // Store the session in httpOnly cookies that expire with the tokens
+    if (session) {
+      setSessionCookies(response, session)
+      return mergeGuestCartOnSignIn(request, response, user.id)
     }
 
     return response
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { config, isFeatureEnabled } from '@/lib/config'
+import { getSafeRedirectPath } from '@/lib/session'
+
+// POST /api/auth/verify-email/resend - Send the confirmation email again
+export async function POST(request: NextRequest) {
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const { email, redirect } = await request.json()
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      )
+    }
+
+    const callbackUrl = new URL('/api/auth/verify-email', config.app.url)
+    callbackUrl.searchParams.set('redirect', getSafeRedirectPath(redirect))
+
+    await auth.resendVerification(email, callbackUrl.toString())
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Resend verification error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
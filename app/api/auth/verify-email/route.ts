@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, isMfaRequired } from '@/lib/auth'
+import { config, isFeatureEnabled } from '@/lib/config'
+import { mergeGuestCartOnSignIn } from '@/lib/cart'
+import { getMfaStepUrl, getSafeRedirectPath, setMfaPendingCookie, setSessionCookies } from '@/lib/session'
+
+// GET /api/auth/verify-email?token=...&redirect=/dashboard - Confirm the address from the emailed link
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const redirect = getSafeRedirectPath(searchParams.get('redirect'))
+
+  try {
+    // Check if authentication is enabled
+    if (!isFeatureEnabled('authentication')) {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 400 }
+      )
+    }
+
+    const token = searchParams.get('token')
+
+    if (!token) {
+      throw new Error('Missing verification token')
+    }
+
+    const result = await auth.verifyEmail(token)
+
+    // Confirming the address signs the user in, but not past their second factor
+    if (isMfaRequired(result)) {
+      const response = NextResponse.redirect(getMfaStepUrl(redirect))
+      await setMfaPendingCookie(response, {
+        accessToken: result.session.accessToken,
+        refreshToken: result.session.refreshToken,
+        factorId: result.factorId
+      })
+      return response
+    }
+
+    const { user, session } = result
+    const response = NextResponse.redirect(new URL(redirect, config.app.url))
+
+    // Confirming the address also signs the user in
+    if (session) {
+      setSessionCookies(response, session)
+      return mergeGuestCartOnSignIn(request, response, user.id)
+    }
+
+    return response
+  } catch (error) {
+    console.error('Email verification error:', error)
+    const verifyUrl = new URL('/auth/verify-email', config.app.url)
+    verifyUrl.searchParams.set('error', 'invalid_link')
+    verifyUrl.searchParams.set('redirect', redirect)
+    return NextResponse.redirect(verifyUrl)
+  }
+}
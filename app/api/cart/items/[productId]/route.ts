@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isProviderEnabled } from '@/lib/config'
+import {
+  applyCartCookie,
+  getCart,
+  getCartId,
+  getCartOwner,
+  getCartPurchaseItems,
+  removeCartItem,
+  setCartItemQuantity
+} from '@/lib/cart'
+import { isProductId, PricingError } from '@/lib/products'
+
+const itemNotFound = () => NextResponse.json(
+  { error: 'Item not in cart' },
+  { status: 404 }
+)
+
+const invalidProductId = () => NextResponse.json(
+  { error: 'Invalid product ID', code: 'invalid_items' },
+  { status: 400 }
+)
+
+// PUT /api/cart/items/[productId] - Change the quantity of a product in the cart
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProductId(params.productId)) return invalidProductId()
+
+    const { quantity } = await request.json()
+
+    const owner = await getCartOwner(request)
+    const cartId = await getCartId(owner)
+    const items = cartId ? await getCartPurchaseItems(cartId) : []
+    if (!cartId || !items.some((item) => item.productId === params.productId)) {
+      return applyCartCookie(itemNotFound(), owner)
+    }
+
+    await setCartItemQuantity(cartId, params.productId, quantity)
+
+    return applyCartCookie(NextResponse.json({ cart: await getCart(cartId) }), owner)
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: error.code === 'insufficient_stock' ? 409 : 400 }
+      )
+    }
+
+    console.error('Cart update error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/cart/items/[productId] - Remove a product from the cart
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProductId(params.productId)) return invalidProductId()
+
+    const owner = await getCartOwner(request)
+    const cartId = await getCartId(owner)
+    if (!cartId || !(await removeCartItem(cartId, params.productId))) {
+      return applyCartCookie(itemNotFound(), owner)
+    }
+
+    return applyCartCookie(NextResponse.json({ cart: await getCart(cartId) }), owner)
+  } catch (error) {
+    console.error('Cart remove error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isProviderEnabled } from '@/lib/config'
+import { addCartItem, applyCartCookie, getCart, getCartId, getCartOwner } from '@/lib/cart'
+import { isProductId, PricingError } from '@/lib/products'
+
+// POST /api/cart/items - Add a product to the caller's cart, creating the cart if needed
+export async function POST(request: NextRequest) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const { productId, quantity = 1 } = await request.json()
+
+    if (!isProductId(productId)) {
+      return NextResponse.json(
+        { error: 'A valid product ID is required', code: 'invalid_items' },
+        { status: 400 }
+      )
+    }
+
+    const owner = await getCartOwner(request)
+    const cartId = (await getCartId(owner, true))!
+    await addCartItem(cartId, productId, quantity)
+
+    return applyCartCookie(NextResponse.json({ cart: await getCart(cartId) }, { status: 201 }), owner)
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: error.code === 'insufficient_stock' ? 409 : 400 }
+      )
+    }
+
+    console.error('Cart add error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isProviderEnabled } from '@/lib/config'
+import { applyCartCookie, clearCart, getCart, getCartId, getCartOwner } from '@/lib/cart'
+
+// GET /api/cart - Get the caller's cart (signed in or guest)
+export async function GET(request: NextRequest) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const owner = await getCartOwner(request)
+    const cart = await getCart(await getCartId(owner))
+
+    return applyCartCookie(NextResponse.json({ cart }), owner)
+  } catch (error) {
+    console.error('Cart fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/cart - Remove every item from the caller's cart
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const owner = await getCartOwner(request)
+    const cartId = await getCartId(owner)
+    if (cartId) {
+      await clearCart(cartId)
+    }
+
+    return applyCartCookie(NextResponse.json({ cart: await getCart(cartId) }), owner)
+  } catch (error) {
+    console.error('Cart clear error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
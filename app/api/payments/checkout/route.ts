@@ -1,7 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { payments } from '@/lib/payments'
-import { isFeatureEnabled } from '@/lib/config'
+import { payments, validateCheckout, type CheckoutItem, type CheckoutOptions } from '@/lib/payments'
+import {
+  parsePurchaseItems,
+  priceItems,
+  PricingError,
+  toCheckoutItem,
+  type PurchaseRequestItem
+} from '@/lib/products'
+import { getOrCreateCustomer } from '@/lib/subscriptions'
+import {
+  countPendingGuestOrders,
+  createOrder,
+  getOrder,
+  MAX_PENDING_GUEST_ORDERS,
+  toOrderCheckoutItems,
+  transitionOrder
+} from '@/lib/orders'
+import { applyCartCookie, getCartId, getCartOwner, getCartPurchaseItems, type CartOwner } from '@/lib/cart'
+import { isFeatureEnabled, isProviderEnabled } from '@/lib/config'
+import { accessDenied } from '@/lib/rbac'
+import { getSessionUser } from '@/lib/session'
 
+// Product ids travel in session metadata, whose values Stripe caps at 500 characters
+const MAX_CHECKOUT_PRODUCTS = 10
+
+// Guests are capped by their cart token, or by address when they buy without a cart
+const getGuestKey = (request: NextRequest, cartOwner: CartOwner | null) => {
+  if (cartOwner?.guestToken) return `cart:${cartOwner.guestToken}`
+  const address = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip || 'unknown'
+  return `ip:${address}`
+}
+
+// POST /api/payments/checkout - Start a payment, subscription or card setup checkout
 export async function POST(request: NextRequest) {
   try {
     // Check if payments are enabled
@@ -12,11 +42,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { items, successUrl, cancelUrl } = await request.json()
+    const {
+      items = [],
+      successUrl,
+      cancelUrl,
+      mode = 'payment',
+      trialDays,
+      promotionCode,
+      allowPromotionCodes,
+      orderId,
+      cart
+    } = await request.json()
 
-    if (!items || !Array.isArray(items) || items.length === 0) {
+    if (!Array.isArray(items)) {
       return NextResponse.json(
-        { error: 'Items are required' },
+        { error: 'Items must be an array' },
         { status: 400 }
       )
     }
@@ -28,14 +68,160 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const checkoutSession = await payments.createCheckoutSession(
-      items,
-      successUrl,
-      cancelUrl
-    )
+    const options: CheckoutOptions = { mode, trialDays, promotionCode, allowPromotionCodes, metadata: {} }
+    let checkoutItems: CheckoutItem[] = []
+    let cartOwner: CartOwner | null = null
+    // Products for the pending order a new one-off purchase creates
+    let purchaseItems: PurchaseRequestItem[] | null = null
+
+    if (mode === 'payment') {
+      if (!isProviderEnabled('supabase')) {
+        return NextResponse.json(
+          { error: 'Product catalog is not configured' },
+          { status: 400 }
+        )
+      }
+
+      if (orderId) {
+        // Paying for an existing order; its stock is already reserved. The order id
+        // lets the webhook mark it paid, or cancel it if the checkout expires.
+        const user = await getSessionUser(request)
+        if (!user) return accessDenied('unauthenticated')
+
+        const order = await getOrder(orderId)
+        if (!order) {
+          return NextResponse.json(
+            { error: 'Order not found' },
+            { status: 404 }
+          )
+        }
+        if (order.user_id !== user.id) return accessDenied('not_owner')
+        if (order.status !== 'pending') {
+          return NextResponse.json(
+            { error: 'Only pending orders can be paid', code: 'order_not_payable' },
+            { status: 409 }
+          )
+        }
+
+        checkoutItems = toOrderCheckoutItems(order)
+        options.metadata!.order_id = order.id
+      } else {
+        // Checking out the caller's own cart (never a cart id from the client),
+        // which the webhook empties once it is paid
+        let cartId: string | null = null
+        if (cart) {
+          cartOwner = await getCartOwner(request)
+          cartId = await getCartId(cartOwner)
+          if (cartId) options.metadata!.cart_id = cartId
+        }
+
+        purchaseItems = cart
+          ? (cartId ? await getCartPurchaseItems(cartId) : [])
+          : parsePurchaseItems(items)
+        if (purchaseItems.length === 0) {
+          return NextResponse.json(
+            { error: 'Cart is empty', code: 'empty_cart' },
+            { status: 400 }
+          )
+        }
+
+        // One-off purchases are priced from the products table, never from the request
+        checkoutItems = (await priceItems(purchaseItems)).map(toCheckoutItem)
+      }
+
+      // Lets the payment be reconciled with the products it was for
+      const productIds = Array.from(new Set(checkoutItems.map((item) => item.id)))
+      if (productIds.length > MAX_CHECKOUT_PRODUCTS) {
+        return NextResponse.json(
+          { error: `Checkout supports at most ${MAX_CHECKOUT_PRODUCTS} different products` },
+          { status: 400 }
+        )
+      }
+      options.metadata!.product_ids = productIds.join(',')
+    } else {
+      // Plans are sold by Stripe price id, which fixes the amount server-side
+      checkoutItems = items.map((item: any) => ({
+        id: item?.priceId,
+        priceId: item?.priceId,
+        quantity: item?.quantity
+      }))
+    }
+
+    const validationError = validateCheckout(checkoutItems, options)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    // Reject bad codes up front rather than failing inside the provider
+    if (promotionCode && mode === 'payment') {
+      const coupon = await payments.validateCoupon(promotionCode, checkoutItems)
+      if (!coupon.valid) {
+        return NextResponse.json(
+          { error: coupon.reason, code: 'invalid_coupon' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Subscriptions and saved cards belong to an account; one-off purchases may be guests.
+    // The mock provider creates a guest customer itself, so offline development skips this.
+    const user = await getSessionUser(request)
+    if (!user && mode !== 'payment' && isProviderEnabled('stripe')) {
+      return accessDenied('unauthenticated')
+    }
+
+    if (user) {
+      options.customerId = await getOrCreateCustomer(user)
+      options.metadata!.user_id = user.id
+    }
+
+    // Every new purchase, guests' included, becomes a pending order that reserves
+    // its stock, only once the checkout is known to be valid. The webhook marks
+    // it paid, or cancels it and releases the stock if the checkout expires.
+    let newOrderId: string | null = null
+    if (purchaseItems) {
+      const guestKey = user ? undefined : getGuestKey(request, cartOwner)
+      if (guestKey && await countPendingGuestOrders(guestKey) >= MAX_PENDING_GUEST_ORDERS) {
+        return NextResponse.json(
+          { error: 'Too many unpaid orders; pay for one or try again once they expire', code: 'too_many_pending_orders' },
+          { status: 429 }
+        )
+      }
+
+      const order = await createOrder(user?.id ?? null, purchaseItems, guestKey)
+      newOrderId = order.id
+      checkoutItems = toOrderCheckoutItems(order)
+      options.metadata!.order_id = order.id
+    }
 
-    return NextResponse.json({ checkoutSession })
+    let checkoutSession
+    try {
+      checkoutSession = await payments.createCheckoutSession(
+        checkoutItems,
+        successUrl,
+        cancelUrl,
+        options
+      )
+    } catch (error) {
+      if (newOrderId) {
+        await transitionOrder(newOrderId, 'cancelled', { reason: 'Checkout could not be started' })
+      }
+      throw error
+    }
+
+    const response = NextResponse.json({ checkoutSession })
+    return cartOwner ? applyCartCookie(response, cartOwner) : response
   } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: 400 }
+      )
+    }
+
     console.error('Checkout error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { payments } from '@/lib/payments'
+import { getCustomerId } from '@/lib/subscriptions'
+import { config, isFeatureEnabled } from '@/lib/config'
+import { requireSession } from '@/lib/rbac'
+import { getSafeRedirectPath } from '@/lib/session'
+
+// POST /api/payments/portal - Open the billing portal for the caller's customer
+export async function POST(request: NextRequest) {
+  try {
+    // Check if payments are enabled
+    if (!isFeatureEnabled('payments')) {
+      return NextResponse.json(
+        { error: 'Payments are disabled' },
+        { status: 400 }
+      )
+    }
+
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
+    // The customer always comes from the session, never from the request body
+    const customerId = await getCustomerId(user.id)
+
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'No billing account found' },
+        { status: 404 }
+      )
+    }
+
+    const { returnPath } = await request.json().catch(() => ({}))
+    const returnUrl = new URL(getSafeRedirectPath(returnPath, '/billing'), config.app.url)
+
+    const portalSession = await payments.createBillingPortalSession(customerId, returnUrl.toString())
+
+    return NextResponse.json({ portalSession })
+  } catch (error) {
+    console.error('Billing portal error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getActiveSubscription } from '@/lib/subscriptions'
+import { isFeatureEnabled } from '@/lib/config'
+import { requireSession } from '@/lib/rbac'
+
+// GET /api/payments/subscription - Get the caller's active subscription
+export async function GET(request: NextRequest) {
+  try {
+    // Check if payments are enabled
+    if (!isFeatureEnabled('payments')) {
+      return NextResponse.json(
+        { error: 'Payments are disabled' },
+        { status: 400 }
+      )
+    }
+
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
+    const subscription = await getActiveSubscription(user.id)
+
+    return NextResponse.json({ subscription })
+  } catch (error) {
+    console.error('Subscription error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pushUsageRecords } from '@/lib/usage'
+import { isFeatureEnabled, isProviderEnabled } from '@/lib/config'
+
+// Compare without returning early, so timing doesn't reveal how much of the secret matched
+const matchesSecret = (value: string, secret: string) => {
+  if (value.length !== secret.length) return false
+  let difference = 0
+  for (let i = 0; i < value.length; i++) {
+    difference |= value.charCodeAt(i) ^ secret.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+// POST /api/payments/usage/push - Report pending usage to the payment provider.
+// Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`; each call pushes one batch.
+export async function POST(request: NextRequest) {
+  try {
+    // Check if payments are enabled
+    if (!isFeatureEnabled('payments')) {
+      return NextResponse.json(
+        { error: 'Payments are disabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 400 }
+      )
+    }
+
+    if (!matchesSecret(request.headers.get('authorization') || '', `Bearer ${cronSecret}`)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await pushUsageRecords()
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    console.error('Usage push error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { payments } from '@/lib/payments'
+import { getCurrentUsage } from '@/lib/usage'
+import { isFeatureEnabled, isProviderEnabled } from '@/lib/config'
+import { accessDenied, canAccess, requireSession } from '@/lib/rbac'
+
+// GET /api/payments/usage - Current period usage and invoice preview for the caller
+// (or ?userId= for staff with users:read)
+export async function GET(request: NextRequest) {
+  try {
+    // Check if payments are enabled
+    if (!isFeatureEnabled('payments')) {
+      return NextResponse.json(
+        { error: 'Payments are disabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
+    const userId = new URL(request.url).searchParams.get('userId') || user.id
+    if (!canAccess(user, userId, 'users:read')) {
+      return accessDenied('not_owner')
+    }
+
+    const usage = await getCurrentUsage(userId)
+    if (!usage) {
+      return NextResponse.json({ usage: null, invoice: null })
+    }
+
+    const invoice = await payments.getUpcomingInvoice(usage.subscriptionId)
+
+    return NextResponse.json({ usage, invoice })
+  } catch (error) {
+    console.error('Usage error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { payments } from '@/lib/payments'
+import { parsePurchaseItems, priceItems, PricingError, toCheckoutItem } from '@/lib/products'
+import { isFeatureEnabled, isProviderEnabled } from '@/lib/config'
+
+// POST /api/payments/validate-coupon - Preview a cart's total with a discount code
+export async function POST(request: NextRequest) {
+  try {
+    // Check if payments are enabled
+    if (!isFeatureEnabled('payments')) {
+      return NextResponse.json(
+        { error: 'Payments are disabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Product catalog is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const { code, items } = await request.json()
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Code is required' },
+        { status: 400 }
+      )
+    }
+
+    // Price the cart the same way checkout will
+    const pricedItems = await priceItems(parsePurchaseItems(items))
+    const currencies = new Set(pricedItems.map((item) => item.currency))
+
+    if (currencies.size > 1) {
+      return NextResponse.json(
+        { error: 'All items must use the same currency' },
+        { status: 400 }
+      )
+    }
+
+    // An unusable code is still a successful preview; check coupon.valid
+    const coupon = await payments.validateCoupon(code, pricedItems.map(toCheckoutItem))
+
+    return NextResponse.json({ coupon })
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: 400 }
+      )
+    }
+
+    console.error('Validate coupon error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
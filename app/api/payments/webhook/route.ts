@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleStripeWebhook } from '@/lib/stripe'
+import { isFeatureEnabled, isProviderEnabled } from '@/lib/config'
+
+// POST /api/payments/webhook - Receive Stripe events
+export async function POST(request: NextRequest) {
+  try {
+    // Check if payments are enabled
+    if (!isFeatureEnabled('payments') || !isProviderEnabled('stripe')) {
+      return NextResponse.json(
+        { error: 'Payments are disabled' },
+        { status: 400 }
+      )
+    }
+
+    // The handler reads the raw body itself to verify the signature
+    return await handleStripeWebhook(request)
+  } catch (error) {
+    console.error('Webhook route error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
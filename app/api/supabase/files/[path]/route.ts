@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import { requirePermission } from '@/lib/rbac'
 
 // GET /api/supabase/files/[path] - Get file by path
 export async function GET(
@@ -15,6 +16,9 @@ export async function GET(
       )
     }
 
+    const user = await requirePermission(request, 'files:read')
+    if (user instanceof NextResponse) return user
+
     const filePath = decodeURIComponent(params.path)
 
     // Get file info
@@ -65,6 +69,9 @@ export async function DELETE(
       )
     }
 
+    const user = await requirePermission(request, 'files:delete')
+    if (user instanceof NextResponse) return user
+
     const filePath = decodeURIComponent(params.path)
 
     const { error } = await supabase.storage
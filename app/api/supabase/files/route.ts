@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import { requirePermission } from '@/lib/rbac'
 
 // GET /api/supabase/files - Get all files
 export async function GET(request: NextRequest) {
@@ -12,6 +13,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const user = await requirePermission(request, 'files:read')
+    if (user instanceof NextResponse) return user
+
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
@@ -77,6 +81,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const user = await requirePermission(request, 'files:write')
+    if (user instanceof NextResponse) return user
+
     const formData = await request.formData()
     const file = formData.get('file') as File
     const folder = formData.get('folder') as string || 'uploads'
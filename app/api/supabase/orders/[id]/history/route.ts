@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isProviderEnabled } from '@/lib/config'
+import { getOrder, getOrderHistory } from '@/lib/orders'
+import { accessDenied, canAccess, requireSession } from '@/lib/rbac'
+
+// GET /api/supabase/orders/[id]/history - Status changes of an order, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
+    const order = await getOrder(params.id)
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canAccess(user, order.user_id, 'orders:read')) {
+      return accessDenied('not_owner')
+    }
+
+    const history = await getOrderHistory(order.id)
+
+    return NextResponse.json({ status: order.status, history })
+  } catch (error) {
+    console.error('Order history error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
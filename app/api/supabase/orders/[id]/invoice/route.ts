@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isProviderEnabled } from '@/lib/config'
+import { getOrder } from '@/lib/orders'
+import { INVOICEABLE_ORDER_STATUSES, issueInvoice, renderInvoicePdf } from '@/lib/invoices'
+import { accessDenied, canAccess, requireSession } from '@/lib/rbac'
+
+// GET /api/supabase/orders/[id]/invoice - Download the order's invoice as a PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
+    const order = await getOrder(params.id)
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canAccess(user, order.user_id, 'orders:read')) {
+      return accessDenied('not_owner')
+    }
+
+    if (!INVOICEABLE_ORDER_STATUSES.includes(order.status)) {
+      return NextResponse.json(
+        { error: 'Invoices are issued once an order is paid', code: 'order_not_invoiceable' },
+        { status: 409 }
+      )
+    }
+
+    const invoice = await issueInvoice(order.id)
+    const pdf = renderInvoicePdf(invoice, order)
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoice.number}.pdf"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Invoice error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
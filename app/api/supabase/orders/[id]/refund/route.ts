@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isFeatureEnabled, isProviderEnabled } from '@/lib/config'
+import { payments } from '@/lib/payments'
+import { getOrder } from '@/lib/orders'
+import { fromMinorUnits, toMinorUnits } from '@/lib/money'
+import { requirePermission } from '@/lib/rbac'
+import { getChargedAmount, getRefundedAmount, recordRefund, REFUNDABLE_ORDER_STATUSES, syncOrderRefundStatus } from '@/lib/refunds'
+
+// POST /api/supabase/orders/[id]/refund - Refund an order in full or in part (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    if (!isFeatureEnabled('payments')) {
+      return NextResponse.json(
+        { error: 'Payments are disabled' },
+        { status: 400 }
+      )
+    }
+
+    const user = await requirePermission(request, 'orders:refund')
+    if (user instanceof NextResponse) return user
+
+    const { amount, reason } = await request.json().catch(() => ({}))
+
+    const order = await getOrder(params.id)
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!REFUNDABLE_ORDER_STATUSES.includes(order.status) || !order.stripe_payment_intent_id) {
+      return NextResponse.json(
+        { error: 'Only paid orders can be refunded', code: 'order_not_refundable' },
+        { status: 409 }
+      )
+    }
+
+    // What was charged, not the order total, so discounted orders can't be over-refunded.
+    // Compare in minor units so rounding can't allow refunding more than was paid.
+    const remaining = fromMinorUnits(
+      toMinorUnits(getChargedAmount(order), order.currency) -
+      toMinorUnits(await getRefundedAmount(order.id), order.currency),
+      order.currency
+    )
+    const refundAmount = amount === undefined ? remaining : Number(amount)
+
+    if (
+      !(refundAmount > 0) ||
+      toMinorUnits(refundAmount, order.currency) > toMinorUnits(remaining, order.currency)
+    ) {
+      return NextResponse.json(
+        { error: `Refund amount must be greater than 0 and at most ${remaining}`, code: 'invalid_refund_amount' },
+        { status: 400 }
+      )
+    }
+
+    const refund = await payments.refund(order.stripe_payment_intent_id, refundAmount)
+    await recordRefund(order.id, refund, { reason, createdBy: user.id })
+    const status = await syncOrderRefundStatus(order, user.id)
+
+    return NextResponse.json({ refund, status: status || order.status }, { status: 201 })
+  } catch (error) {
+    console.error('Refund order error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
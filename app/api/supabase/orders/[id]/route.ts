@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { requireSupabaseAdmin } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import {
+  getOrder,
+  isOrderStatus,
+  MANUAL_ORDER_STATUSES,
+  ORDER_STATUSES,
+  OrderTransitionError,
+  transitionOrder
+} from '@/lib/orders'
+import { accessDenied, canAccess, hasPermission, requirePermission, requireSession } from '@/lib/rbac'
 
 // GET /api/supabase/orders/[id] - Get order by ID
 export async function GET(
@@ -15,31 +24,22 @@ export async function GET(
       )
     }
 
-    const { data, error } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        users:user_id (id, name, email),
-        products:product_id (id, name, price, image_url)
-      `)
-      .eq('id', params.id)
-      .single()
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return NextResponse.json(
-          { error: 'Order not found' },
-          { status: 404 }
-        )
-      }
-      console.error('Supabase error:', error)
+    const order = await getOrder(params.id)
+    if (!order) {
       return NextResponse.json(
-        { error: 'Failed to fetch order' },
-        { status: 500 }
+        { error: 'Order not found' },
+        { status: 404 }
       )
     }
 
-    return NextResponse.json({ order: data })
+    if (!canAccess(user, order.user_id, 'orders:read')) {
+      return accessDenied('not_owner')
+    }
+
+    return NextResponse.json({ order })
   } catch (error) {
     console.error('Get order error:', error)
     return NextResponse.json(
@@ -49,7 +49,8 @@ export async function GET(
   }
 }
 
-// PUT /api/supabase/orders/[id] - Update order
+// PUT /api/supabase/orders/[id] - Change an order's status ({ status, reason }).
+// Only the status is writable; totals and ownership never come from the client.
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -62,39 +63,54 @@ export async function PUT(
       )
     }
 
-    const updates = await request.json()
-    const { id, created_at, ...updateData } = updates
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
 
-    // Add updated_at timestamp
-    updateData.updated_at = new Date().toISOString()
+    const existing = await getOrder(params.id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
 
-    const { data, error } = await supabase
-      .from('orders')
-      .update(updateData)
-      .eq('id', params.id)
-      .select(`
-        *,
-        users:user_id (id, name, email),
-        products:product_id (id, name, price, image_url)
-      `)
-      .single()
+    const { status, reason } = await request.json()
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return NextResponse.json(
-          { error: 'Order not found' },
-          { status: 404 }
-        )
-      }
-      console.error('Supabase error:', error)
+    if (!isOrderStatus(status)) {
       return NextResponse.json(
-        { error: 'Failed to update order' },
-        { status: 500 }
+        { error: `Status must be one of: ${ORDER_STATUSES.join(', ')}`, code: 'invalid_status' },
+        { status: 400 }
+      )
+    }
+
+    if (!MANUAL_ORDER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Refund statuses are set by refunding the order', code: 'invalid_status' },
+        { status: 400 }
       )
     }
 
-    return NextResponse.json({ order: data })
+    if (!hasPermission(user.role, 'orders:update')) {
+      if (existing.user_id !== user.id) return accessDenied('not_owner')
+
+      // Owners may only cancel; the lifecycle allows that while the order is pending
+      if (status !== 'cancelled') return accessDenied('forbidden')
+    }
+
+    await transitionOrder(params.id, status, {
+      actorId: user.id,
+      reason: typeof reason === 'string' ? reason : null
+    })
+
+    return NextResponse.json({ order: await getOrder(params.id) })
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, from: error.from, to: error.to },
+        { status: error.code === 'order_not_found' ? 404 : 409 }
+      )
+    }
+
     console.error('Update order error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -103,7 +119,8 @@ export async function PUT(
   }
 }
 
-// DELETE /api/supabase/orders/[id] - Delete order
+// DELETE /api/supabase/orders/[id] - Delete order. A pending order is cancelled
+// first, so the stock it reserved goes back on sale.
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -116,10 +133,25 @@ export async function DELETE(
       )
     }
 
-    const { error } = await supabase
+    const user = await requirePermission(request, 'orders:delete')
+    if (user instanceof NextResponse) return user
+
+    const order = await getOrder(params.id)
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    if (order.status === 'pending') {
+      await transitionOrder(order.id, 'cancelled', { actorId: user.id, reason: 'Order deleted' })
+    }
+
+    const { error } = await requireSupabaseAdmin('delete orders')
       .from('orders')
       .delete()
-      .eq('id', params.id)
+      .eq('id', order.id)
 
     if (error) {
       console.error('Supabase error:', error)
@@ -131,6 +163,13 @@ export async function DELETE(
 
     return NextResponse.json({ success: true })
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, from: error.from, to: error.to },
+        { status: error.code === 'order_not_found' ? 404 : 409 }
+      )
+    }
+
     console.error('Delete order error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { requireSupabaseAdmin } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import { parsePurchaseItems, PricingError } from '@/lib/products'
+import { createOrder, ORDER_SELECT } from '@/lib/orders'
+import { accessDenied, hasPermission, requirePermission, requireSession } from '@/lib/rbac'
 
-// GET /api/supabase/orders - Get all orders
+// GET /api/supabase/orders - Get the caller's orders (all orders with orders:read)
 export async function GET(request: NextRequest) {
   try {
     if (!isProviderEnabled('supabase')) {
@@ -12,19 +15,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
-    const userId = searchParams.get('userId')
     const status = searchParams.get('status')
+    let userId = searchParams.get('userId')
+
+    // Without orders:read, callers only ever see their own orders
+    if (!hasPermission(user.role, 'orders:read')) {
+      if (userId && userId !== user.id) return accessDenied('not_owner')
+      userId = user.id
+    }
 
-    let query = supabase
+    // Line items are only readable with the service role; the scoping above limits the rows
+    let query = requireSupabaseAdmin('list orders')
       .from('orders')
-      .select(`
-        *,
-        users:user_id (id, name, email),
-        products:product_id (id, name, price)
-      `, { count: 'exact' })
+      .select(ORDER_SELECT, { count: 'exact' })
       .range((page - 1) * limit, page * limit - 1)
       .order('created_at', { ascending: false })
 
@@ -66,7 +75,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/supabase/orders - Create a new order
+// POST /api/supabase/orders - Create an order from a cart of products
 export async function POST(request: NextRequest) {
   try {
     if (!isProviderEnabled('supabase')) {
@@ -76,60 +85,29 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { user_id, product_id, quantity, stripe_payment_intent_id } = await request.json()
-
-    if (!user_id || !product_id || !quantity) {
-      return NextResponse.json(
-        { error: 'User ID, product ID, and quantity are required' },
-        { status: 400 }
-      )
-    }
+    const user = await requirePermission(request, 'orders:create')
+    if (user instanceof NextResponse) return user
 
-    // Get product price
-    const { data: product, error: productError } = await supabase
-      .from('products')
-      .select('price')
-      .eq('id', product_id)
-      .single()
+    // Orders always belong to the caller and get their payment intent from the
+    // payment webhook; any user_id or stripe_payment_intent_id in the body is ignored
+    const body = await request.json()
 
-    if (productError || !product) {
-      return NextResponse.json(
-        { error: 'Product not found' },
-        { status: 404 }
-      )
-    }
+    // A cart of { productId, quantity } items; a single product_id/quantity is still accepted
+    const items = parsePurchaseItems(
+      body.items ?? (body.product_id ? [{ productId: body.product_id, quantity: body.quantity }] : undefined)
+    )
 
-    const total = product.price * quantity
+    const order = await createOrder(user.id, items)
 
-    const { data, error } = await supabase
-      .from('orders')
-      .insert({
-        user_id,
-        product_id,
-        quantity,
-        total,
-        status: 'pending',
-        stripe_payment_intent_id,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .select(`
-        *,
-        users:user_id (id, name, email),
-        products:product_id (id, name, price)
-      `)
-      .single()
-
-    if (error) {
-      console.error('Supabase error:', error)
+    return NextResponse.json({ order }, { status: 201 })
+  } catch (error) {
+    if (error instanceof PricingError) {
       return NextResponse.json(
-        { error: 'Failed to create order' },
-        { status: 500 }
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: error.code === 'unknown_product' ? 404 : error.code === 'insufficient_stock' ? 409 : 400 }
       )
     }
 
-    return NextResponse.json({ order: data }, { status: 201 })
-  } catch (error) {
     console.error('Create order error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
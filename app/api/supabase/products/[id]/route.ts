@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import { requirePermission } from '@/lib/rbac'
+import { isValidCurrency, normalizeCurrency } from '@/lib/money'
+import { validateInventoryFields } from '@/lib/products'
 
 // GET /api/supabase/products/[id] - Get product by ID
 export async function GET(
@@ -58,9 +61,31 @@ export async function PUT(
       )
     }
 
+    const user = await requirePermission(request, 'products:write')
+    if (user instanceof NextResponse) return user
+
     const updates = await request.json()
     const { id, created_at, ...updateData } = updates
 
+    if (updateData.currency !== undefined) {
+      if (!isValidCurrency(updateData.currency)) {
+        return NextResponse.json(
+          { error: 'Currency must be a three-letter ISO code' },
+          { status: 400 }
+        )
+      }
+      updateData.currency = normalizeCurrency(updateData.currency)
+    }
+
+    // stock_quantity replaces the current level; pending orders have already taken theirs
+    const inventoryError = validateInventoryFields(updateData)
+    if (inventoryError) {
+      return NextResponse.json(
+        { error: inventoryError },
+        { status: 400 }
+      )
+    }
+
     // Add updated_at timestamp
     updateData.updated_at = new Date().toISOString()
 
@@ -108,6 +133,9 @@ export async function DELETE(
       )
     }
 
+    const user = await requirePermission(request, 'products:delete')
+    if (user instanceof NextResponse) return user
+
     const { error } = await supabase
       .from('products')
       .delete()
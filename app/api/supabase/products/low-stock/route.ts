@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { isProviderEnabled } from '@/lib/config'
+import { requirePermission } from '@/lib/rbac'
+
+// Stock level at or below which a tracked product is reported
+const DEFAULT_LOW_STOCK_THRESHOLD = 5
+
+// GET /api/supabase/products/low-stock - Tracked products running out (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    if (!isProviderEnabled('supabase')) {
+      return NextResponse.json(
+        { error: 'Supabase is not configured' },
+        { status: 400 }
+      )
+    }
+
+    const user = await requirePermission(request, 'admin:access')
+    if (user instanceof NextResponse) return user
+
+    const { searchParams } = new URL(request.url)
+    const threshold = parseInt(searchParams.get('threshold') || String(DEFAULT_LOW_STOCK_THRESHOLD))
+
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      return NextResponse.json(
+        { error: 'Threshold must be a whole number of 0 or more' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, name, stock_quantity, active, updated_at')
+      .eq('track_inventory', true)
+      .lte('stock_quantity', threshold)
+      .order('stock_quantity', { ascending: true })
+
+    if (error) {
+      console.error('Supabase error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch products' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ products: data, threshold })
+  } catch (error) {
+    console.error('Low stock error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
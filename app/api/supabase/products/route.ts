@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import { requirePermission } from '@/lib/rbac'
+import { DEFAULT_CURRENCY, isValidCurrency, normalizeCurrency } from '@/lib/money'
+import { validateInventoryFields } from '@/lib/products'
 
 // GET /api/supabase/products - Get all products
 export async function GET(request: NextRequest) {
@@ -82,7 +85,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { name, description, price, category, image_url, metadata = {} } = await request.json()
+    const user = await requirePermission(request, 'products:write')
+    if (user instanceof NextResponse) return user
+
+    const {
+      name,
+      description,
+      price,
+      currency = DEFAULT_CURRENCY,
+      category,
+      image_url,
+      metadata = {},
+      track_inventory = false,
+      stock_quantity = 0
+    } = await request.json()
 
     if (!name || !price) {
       return NextResponse.json(
@@ -91,15 +107,33 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!isValidCurrency(currency)) {
+      return NextResponse.json(
+        { error: 'Currency must be a three-letter ISO code' },
+        { status: 400 }
+      )
+    }
+
+    const inventoryError = validateInventoryFields({ track_inventory, stock_quantity })
+    if (inventoryError) {
+      return NextResponse.json(
+        { error: inventoryError },
+        { status: 400 }
+      )
+    }
+
     const { data, error } = await supabase
       .from('products')
       .insert({
         name,
         description,
         price: parseFloat(price),
+        currency: normalizeCurrency(currency),
         category,
         image_url,
         metadata,
+        track_inventory,
+        stock_quantity,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import { accessDenied, canAccess, pickFields, requirePermission, requireSession } from '@/lib/rbac'
+
+// Profile fields a client may change; role, email and ids are managed server-side
+const USER_UPDATE_FIELDS = ['name', 'avatar_url', 'metadata'] as const
 
 // GET /api/supabase/users/[id] - Get user by ID
 export async function GET(
@@ -15,6 +19,13 @@ export async function GET(
       )
     }
 
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
+    if (!canAccess(user, params.id, 'users:read')) {
+      return accessDenied('not_owner')
+    }
+
     const { data, error } = await supabase
       .from('users')
       .select('*')
@@ -58,8 +69,15 @@ export async function PUT(
       )
     }
 
+    const user = await requireSession(request)
+    if (user instanceof NextResponse) return user
+
+    if (!canAccess(user, params.id, 'users:write')) {
+      return accessDenied('not_owner')
+    }
+
     const updates = await request.json()
-    const { id, created_at, ...updateData } = updates
+    const updateData: Record<string, any> = pickFields(updates, USER_UPDATE_FIELDS)
 
     // Add updated_at timestamp
     updateData.updated_at = new Date().toISOString()
@@ -108,6 +126,9 @@ export async function DELETE(
       )
     }
 
+    const user = await requirePermission(request, 'users:delete')
+    if (user instanceof NextResponse) return user
+
     const { error } = await supabase
       .from('users')
       .delete()
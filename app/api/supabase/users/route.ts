@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { isProviderEnabled } from '@/lib/config'
+import { requirePermission } from '@/lib/rbac'
 
 // GET /api/supabase/users - Get all users (admin only)
 export async function GET(request: NextRequest) {
@@ -12,6 +13,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const user = await requirePermission(request, 'users:read')
+    if (user instanceof NextResponse) return user
+
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
@@ -66,6 +70,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const user = await requirePermission(request, 'users:write')
+    if (user instanceof NextResponse) return user
+
     const { email, name, role = 'user', metadata = {} } = await request.json()
 
     if (!email || !name) {
@@ -0,0 +1,26 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { LoginForm } from '@/components/auth/LoginForm'
+import { LayoutVariants } from '@/components/layout/PageLayout'
+import { getSafeRedirectPath } from '@/lib/session'
+
+interface MfaPageProps {
+  searchParams: { redirect?: string }
+}
+
+// Second step of OAuth, magic-link and email-confirmation sign-ins for users with two-factor authentication
+export default function MfaPage({ searchParams }: MfaPageProps) {
+  const router = useRouter()
+
+  return (
+    <LayoutVariants.Auth>
+      <div className="flex justify-center py-12">
+        <LoginForm
+          mfaPending
+          onSuccess={() => router.push(getSafeRedirectPath(searchParams.redirect))}
+        />
+      </div>
+    </LayoutVariants.Auth>
+  )
+}
@@ -0,0 +1,18 @@
+'use client'
+
+import { ResetPasswordForm } from '@/components/auth/ResetPasswordForm'
+import { LayoutVariants } from '@/components/layout/PageLayout'
+
+interface ResetPasswordPageProps {
+  searchParams: { token?: string }
+}
+
+export default function ResetPasswordPage({ searchParams }: ResetPasswordPageProps) {
+  return (
+    <LayoutVariants.Auth>
+      <div className="flex justify-center py-12">
+        <ResetPasswordForm token={searchParams.token} />
+      </div>
+    </LayoutVariants.Auth>
+  )
+}
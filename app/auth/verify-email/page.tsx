@@ -0,0 +1,26 @@
+'use client'
+
+import { VerifyEmailNotice } from '@/components/auth/VerifyEmailNotice'
+import { LayoutVariants } from '@/components/layout/PageLayout'
+import { useAuth } from '@/lib/auth'
+import { getSafeRedirectPath } from '@/lib/session'
+
+interface VerifyEmailPageProps {
+  searchParams: { redirect?: string; error?: string }
+}
+
+export default function VerifyEmailPage({ searchParams }: VerifyEmailPageProps) {
+  const { user } = useAuth()
+
+  return (
+    <LayoutVariants.Auth>
+      <div className="flex justify-center py-12">
+        <VerifyEmailNotice
+          email={user?.email}
+          redirectTo={getSafeRedirectPath(searchParams.redirect)}
+          invalidLink={searchParams.error === 'invalid_link'}
+        />
+      </div>
+    </LayoutVariants.Auth>
+  )
+}
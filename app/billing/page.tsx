@@ -0,0 +1,21 @@
+'use client'
+
+import { SubscriptionCard } from '@/components/billing/SubscriptionCard'
+import { LayoutVariants } from '@/components/layout/PageLayout'
+
+export default function BillingPage() {
+  return (
+    <LayoutVariants.Dashboard>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Billing</h1>
+          <p className="text-muted-foreground">
+            Your plan and billing details.
+          </p>
+        </div>
+
+        <SubscriptionCard />
+      </div>
+    </LayoutVariants.Dashboard>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { MfaSetup } from '@/components/auth/MfaSetup'
+import { LayoutVariants } from '@/components/layout/PageLayout'
+import { getSafeRedirectPath } from '@/lib/session'
+
+interface SecurityPageProps {
+  searchParams: { redirect?: string }
+}
+
+export default function SecurityPage({ searchParams }: SecurityPageProps) {
+  const router = useRouter()
+
+  return (
+    <LayoutVariants.Dashboard>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Security</h1>
+          {searchParams.redirect && (
+            <p className="text-muted-foreground">
+              This area requires two-factor authentication. Set it up to continue.
+            </p>
+          )}
+        </div>
+
+        <MfaSetup
+          onComplete={() => router.push(getSafeRedirectPath(searchParams.redirect, '/settings'))}
+        />
+      </div>
+    </LayoutVariants.Dashboard>
+  )
+}
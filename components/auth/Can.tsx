@@ -0,0 +1,24 @@
+'use client'
+
+import React from 'react'
+import { useAuth } from '@/lib/auth'
+import { hasPermission, type Permission } from '@/lib/rbac'
+
+interface CanProps {
+  permission: Permission
+  children: React.ReactNode
+  // Rendered instead of children when the permission is missing
+  fallback?: React.ReactNode
+}
+
+// Hides UI the current user may not use. This is cosmetic only:
+// API routes enforce the same permission with requirePermission().
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const { user, loading } = useAuth()
+
+  if (loading || !hasPermission(user?.role, permission)) {
+    return <>{fallback}</>
+  }
+
+  return <>{children}</>
+}
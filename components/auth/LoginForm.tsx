@@ -1,25 +1,36 @@
 'use client'
 
 import React, { useState } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { useAuth } from '@/lib/auth'
+import { OAuthButtons } from './OAuthButtons'
 import { isFeatureEnabled } from '@/lib/config'
 
 interface LoginFormProps {
+  // 'magic-link' asks only for an email and sends a sign-in link
+  mode?: 'password' | 'magic-link'
+  // Start at the code step, for sign-ins parked by a link or OAuth redirect
+  mfaPending?: boolean
   onSuccess?: () => void
   onSwitchToSignup?: () => void
 }
 
-export function LoginForm({ onSuccess, onSwitchToSignup }: LoginFormProps) {
+export function LoginForm({ mode = 'password', mfaPending = false, onSuccess, onSwitchToSignup }: LoginFormProps) {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Second step, shown when the account has two-factor authentication
+  const [mfaRequired, setMfaRequired] = useState(mfaPending)
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [code, setCode] = useState('')
+  const [magicLinkSent, setMagicLinkSent] = useState(false)
   
-  const { signIn } = useAuth()
+  const { signIn, sendMagicLink, verifyMfa, recoverMfa } = useAuth()
 
   // Don't render if auth is disabled
   if (!isFeatureEnabled('authentication')) {
@@ -41,7 +52,17 @@ export function LoginForm({ onSuccess, onSwitchToSignup }: LoginFormProps) {
     setError(null)
 
     try {
-      await signIn(email, password)
+      if (mode === 'magic-link') {
+        await sendMagicLink(email)
+        setMagicLinkSent(true)
+        return
+      }
+
+      const { mfaRequired } = await signIn(email, password)
+      if (mfaRequired) {
+        setMfaRequired(true)
+        return
+      }
       onSuccess?.()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed')
@@ -50,15 +71,118 @@ export function LoginForm({ onSuccess, onSwitchToSignup }: LoginFormProps) {
     }
   }
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      if (useRecoveryCode) {
+        await recoverMfa(code)
+      } else {
+        await verifyMfa(code)
+      }
+      onSuccess?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (magicLinkSent) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Check Your Email</CardTitle>
+          <CardDescription>
+            We sent a sign-in link to {email}. Open it on this device to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center text-sm">
+            <button
+              type="button"
+              onClick={() => setMagicLinkSent(false)}
+              className="text-primary hover:underline"
+            >
+              Use a different email
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (mfaRequired) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes. This will turn off two-factor authentication so you can set it up again.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="code">{useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}</Label>
+              <Input
+                id="code"
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx-xxxxx-xxxxx' : '123456'}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+
+          <div className="mt-4 text-center text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode)
+                setCode('')
+                setError(null)
+              }}
+              className="text-primary hover:underline"
+            >
+              {useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code'}
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
   return (
     <Card className="w-full max-w-md">
       <CardHeader>
         <CardTitle>Sign In</CardTitle>
         <CardDescription>
-          Enter your email and password to sign in to your account.
+          {mode === 'magic-link'
+            ? "Enter your email and we'll send you a link to sign in."
+            : 'Enter your email and password to sign in to your account.'}
         </CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <OAuthButtons />
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="email">Email</Label>
@@ -72,17 +196,27 @@ export function LoginForm({ onSuccess, onSwitchToSignup }: LoginFormProps) {
             />
           </div>
           
-          <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
-            <Input
-              id="password"
-              type="password"
-              placeholder="Enter your password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-            />
-          </div>
+          {mode === 'password' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link
+                  href="/auth/reset-password"
+                  className="text-sm text-primary hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+          )}
 
           {error && (
             <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
@@ -91,7 +225,9 @@ export function LoginForm({ onSuccess, onSwitchToSignup }: LoginFormProps) {
           )}
 
           <Button type="submit" className="w-full" disabled={loading}>
-            {loading ? 'Signing in...' : 'Sign In'}
+            {mode === 'magic-link'
+              ? (loading ? 'Sending link...' : 'Email Me a Link')
+              : (loading ? 'Signing in...' : 'Sign In')}
           </Button>
         </form>
 
@@ -0,0 +1,164 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAuth } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+import type { MfaEnrollment } from '@/lib/mfa'
+
+interface MfaSetupProps {
+  onComplete?: () => void
+}
+
+export function MfaSetup({ onComplete }: MfaSetupProps) {
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { enrollMfa, confirmMfaEnrollment } = useAuth()
+
+  // Don't render if auth is disabled
+  if (!isFeatureEnabled('authentication')) {
+    return null
+  }
+
+  const handleStart = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      setEnrollment(await enrollMfa())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start setup')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!enrollment) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      setRecoveryCodes(await confirmMfaEnrollment(enrollment.factorId, code))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const errorMessage = error && (
+    <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+      {error}
+    </div>
+  )
+
+  if (recoveryCodes) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Save Your Recovery Codes</CardTitle>
+          <CardDescription>
+            Two-factor authentication is on. Store these codes somewhere safe; each one
+            can be used once to sign in if you lose your authenticator.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {recoveryCodes.length > 0 && (
+            <ul className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          )}
+          <Button className="w-full" onClick={() => onComplete?.()}>
+            I've saved my codes
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (enrollment) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Scan the QR Code</CardTitle>
+          <CardDescription>
+            Scan this with your authenticator app, then enter the 6-digit code it shows.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {enrollment.qrCode ? (
+            <img
+              src={enrollment.qrCode}
+              alt="Two-factor authentication QR code"
+              className="mx-auto h-48 w-48"
+            />
+          ) : (
+            <a
+              href={enrollment.otpauthUri}
+              className="block break-all text-sm text-primary hover:underline"
+            >
+              {enrollment.otpauthUri}
+            </a>
+          )}
+
+          <p className="text-center text-sm text-muted-foreground">
+            Can't scan? Enter this key manually:{' '}
+            <span className="font-mono">{enrollment.secret}</span>
+          </p>
+
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="code">Authentication Code</Label>
+              <Input
+                id="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </div>
+
+            {errorMessage}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Verifying...' : 'Turn On Two-Factor Authentication'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Protect your account with a code from an authenticator app in addition to your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {errorMessage}
+
+        <Button className="w-full" onClick={handleStart} disabled={loading}>
+          {loading ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/lib/auth'
+import { getEnabledOAuthProviders, type OAuthProviderName } from '@/lib/config'
+
+const providerLabels: Record<OAuthProviderName, string> = {
+  github: 'GitHub',
+  google: 'Google'
+}
+
+interface OAuthButtonsProps {
+  // Where to land after the provider sends the user back
+  redirectTo?: string
+}
+
+export function OAuthButtons({ redirectTo = '/' }: OAuthButtonsProps) {
+  const { signInWithOAuth } = useAuth()
+  const providers = getEnabledOAuthProviders()
+
+  if (providers.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {providers.map((provider) => (
+          <Button
+            key={provider}
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => signInWithOAuth(provider, redirectTo)}
+          >
+            Continue with {providerLabels[provider]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="relative text-center text-xs uppercase text-muted-foreground">
+        <span className="bg-background px-2">Or continue with email</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAuth } from '@/lib/auth'
+import { isFeatureEnabled } from '@/lib/config'
+
+interface ResetPasswordFormProps {
+  // Token from the reset email link; without it the form requests a new link
+  token?: string
+  onSuccess?: () => void
+  onSwitchToLogin?: () => void
+}
+
+export function ResetPasswordForm({ token, onSuccess, onSwitchToLogin }: ResetPasswordFormProps) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [done, setDone] = useState(false)
+
+  const { resetPassword, confirmPasswordReset } = useAuth()
+
+  // Don't render if auth is disabled
+  if (!isFeatureEnabled('authentication')) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Authentication Disabled</CardTitle>
+          <CardDescription>
+            Authentication is not enabled for this application.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      await resetPassword(email)
+      setDone(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reset link')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    // Validate passwords match
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      setLoading(false)
+      return
+    }
+
+    // Validate password strength
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long')
+      setLoading(false)
+      return
+    }
+
+    try {
+      await confirmPasswordReset(token!, password)
+      setDone(true)
+      onSuccess?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Password reset failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const backToLogin = onSwitchToLogin ? (
+    <div className="mt-4 text-center text-sm">
+      Remembered it?{' '}
+      <button
+        type="button"
+        onClick={onSwitchToLogin}
+        className="text-primary hover:underline"
+      >
+        Sign in
+      </button>
+    </div>
+  ) : (
+    <div className="mt-4 text-center text-sm">
+      <Link href="/auth/login" className="text-primary hover:underline">
+        Back to sign in
+      </Link>
+    </div>
+  )
+
+  if (done) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{token ? 'Password Updated' : 'Check Your Email'}</CardTitle>
+          <CardDescription>
+            {token
+              ? 'Your password has been changed. You can now sign in with your new password.'
+              : `If an account exists for ${email}, we've sent a link to reset your password.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{backToLogin}</CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>{token ? 'Choose a New Password' : 'Reset Password'}</CardTitle>
+        <CardDescription>
+          {token
+            ? 'Enter a new password for your account.'
+            : "Enter your email and we'll send you a link to reset your password."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {token ? (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password">New Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Create a new password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                placeholder="Confirm your new password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Updating password...' : 'Update Password'}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleRequest} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="Enter your email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Sending link...' : 'Send Reset Link'}
+            </Button>
+          </form>
+        )}
+
+        {backToLogin}
+      </CardContent>
+    </Card>
+  )
+}
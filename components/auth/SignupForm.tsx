@@ -6,6 +6,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { useAuth } from '@/lib/auth'
+import { OAuthButtons } from './OAuthButtons'
+import { VerifyEmailNotice } from './VerifyEmailNotice'
 import { isFeatureEnabled } from '@/lib/config'
 
 interface SignupFormProps {
@@ -20,6 +22,8 @@ export function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormProps) {
   const [confirmPassword, setConfirmPassword] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Set once the account exists but its email still needs confirming
+  const [verificationPending, setVerificationPending] = useState(false)
   
   const { signUp } = useAuth()
 
@@ -57,7 +61,11 @@ export function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormProps) {
     }
 
     try {
-      await signUp(email, password, name)
+      const user = await signUp(email, password, name)
+      if (!user.emailVerified) {
+        setVerificationPending(true)
+        return
+      }
       onSuccess?.()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Sign up failed')
@@ -66,6 +74,10 @@ export function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormProps) {
     }
   }
 
+  if (verificationPending) {
+    return <VerifyEmailNotice email={email} />
+  }
+
   return (
     <Card className="w-full max-w-md">
       <CardHeader>
@@ -74,7 +86,9 @@ export function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormProps) {
           Enter your information to create a new account.
         </CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <OAuthButtons />
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="name">Full Name</Label>
@@ -0,0 +1,76 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAuth } from '@/lib/auth'
+
+interface VerifyEmailNoticeProps {
+  // Address the confirmation link was sent to; without it the resend button is hidden
+  email?: string
+  // Where the confirmation link should land once followed
+  redirectTo?: string
+  // Set when a confirmation link was rejected as invalid or expired
+  invalidLink?: boolean
+}
+
+export function VerifyEmailNotice({ email, redirectTo = '/', invalidLink = false }: VerifyEmailNoticeProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [resent, setResent] = useState(false)
+
+  const { resendVerification } = useAuth()
+
+  const handleResend = async () => {
+    if (!email) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      await resendVerification(email, redirectTo)
+      setResent(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend email')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>{invalidLink ? 'Link Expired' : 'Check Your Inbox'}</CardTitle>
+        <CardDescription>
+          {invalidLink
+            ? 'That confirmation link is invalid or has expired. Request a new one below.'
+            : `We sent a confirmation link to ${email || 'your email address'}. Follow it to verify your account.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {resent && (
+          <div className="text-sm text-green-700 bg-green-50 p-3 rounded-md">
+            A new confirmation link is on its way.
+          </div>
+        )}
+
+        {email && (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handleResend}
+            disabled={loading}
+          >
+            {loading ? 'Sending...' : 'Resend Confirmation Email'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useSubscription, type Subscription } from '@/lib/payments'
+
+const statusLabels: Record<Subscription['status'], string> = {
+  active: 'Active',
+  trialing: 'Trial',
+  past_due: 'Payment past due',
+  canceled: 'Canceled',
+  incomplete: 'Incomplete',
+  unpaid: 'Unpaid'
+}
+
+const formatDate = (value?: string) => {
+  return value ? new Date(value).toLocaleDateString(undefined, { dateStyle: 'long' }) : null
+}
+
+export function SubscriptionCard() {
+  const { subscription, loading, error, openBillingPortal } = useSubscription()
+  const [portalLoading, setPortalLoading] = useState(false)
+  const [portalError, setPortalError] = useState<string | null>(null)
+
+  const handleManageBilling = async () => {
+    setPortalLoading(true)
+    setPortalError(null)
+
+    try {
+      await openBillingPortal()
+    } catch (err) {
+      setPortalError(err instanceof Error ? err.message : 'Failed to open billing portal')
+      setPortalLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Plan</CardTitle>
+          <CardDescription>Loading your billing details...</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Plan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+            {error}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!subscription) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Plan</CardTitle>
+          <CardDescription>You are on the free plan.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild>
+            <Link href="/pricing">View Plans</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const periodEnd = formatDate(subscription.currentPeriodEnd)
+  const trialEnd = subscription.status === 'trialing' ? formatDate(subscription.trialEnd) : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Current Plan</CardTitle>
+        <CardDescription>{statusLabels[subscription.status]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {subscription.priceId && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Plan</span>
+            <span className="font-mono">{subscription.priceId}</span>
+          </div>
+        )}
+        {trialEnd && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Trial ends</span>
+            <span>{trialEnd}</span>
+          </div>
+        )}
+        {periodEnd && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              {subscription.cancelAtPeriodEnd ? 'Ends on' : 'Renews on'}
+            </span>
+            <span>{periodEnd}</span>
+          </div>
+        )}
+        {subscription.status === 'past_due' && (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+            Your last payment failed. Update your payment method to keep your plan.
+          </div>
+        )}
+
+        {portalError && (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+            {portalError}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={handleManageBilling} disabled={portalLoading}>
+          {portalLoading ? 'Opening portal...' : 'Manage Billing'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
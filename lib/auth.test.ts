@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { isMfaRequired, MockAuthProvider, type AuthResult, type MfaRequired } from './auth'
+import { generateTotp } from './mfa'
+
+let auth: MockAuthProvider
+
+// Turn on two-factor authentication for the user behind a full session
+const enrollMfa = async (result: AuthResult | MfaRequired | null) => {
+  const tokens = result!.session!
+  const { factorId, secret } = await auth.enrollMfa(tokens)
+  await auth.confirmMfaEnrollment(tokens, factorId, await generateTotp(secret))
+  return factorId
+}
+
+const linkToken = (link: string | null) => new URL(link!).searchParams.get('token')!
+
+beforeEach(() => {
+  auth = new MockAuthProvider()
+})
+
+describe('MockAuthProvider second factor', () => {
+  it('stops a password sign-in at the second factor', async () => {
+    const factorId = await enrollMfa(await auth.signIn('user@example.com', 'password'))
+
+    await expect(auth.signIn('user@example.com', 'password')).resolves.toMatchObject({
+      status: 'mfa_required',
+      factorId
+    })
+  })
+
+  it('stops a magic-link sign-in at the second factor', async () => {
+    const factorId = await enrollMfa(await auth.signIn('user@example.com', 'password'))
+    await auth.signInWithMagicLink('user@example.com', 'http://localhost/api/auth/magic-link/callback?redirect=/')
+
+    const result = await auth.verifyMagicLink(linkToken(auth.getLastMagicLink()))
+
+    expect(isMfaRequired(result)).toBe(true)
+    expect(result).toMatchObject({ factorId })
+  })
+
+  it('stops an OAuth sign-in at the second factor', async () => {
+    const signInWithGithub = async () => {
+      const { url } = await auth.signInWithOAuth('github', 'http://localhost/api/auth/callback')
+      return auth.exchangeOAuthCode(new URL(url).searchParams.get('code')!)
+    }
+    const factorId = await enrollMfa(await signInWithGithub())
+
+    await expect(signInWithGithub()).resolves.toMatchObject({ status: 'mfa_required', factorId })
+  })
+
+  it('stops the sign-in that comes with email confirmation at the second factor', async () => {
+    const factorId = await enrollMfa(await auth.signUp('new@example.com', 'password'))
+
+    const result = await auth.verifyEmail(linkToken(auth.getLastVerificationLink()))
+
+    expect(result).toMatchObject({ status: 'mfa_required', factorId, user: { emailVerified: true } })
+  })
+
+  it('signs users without a second factor straight in', async () => {
+    await auth.signInWithMagicLink('user@example.com', 'http://localhost/api/auth/magic-link/callback?redirect=/')
+
+    const result = await auth.verifyMagicLink(linkToken(auth.getLastMagicLink()))
+
+    expect(isMfaRequired(result)).toBe(false)
+    expect(result.session).not.toBeNull()
+  })
+})
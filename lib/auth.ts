@@ -8,7 +8,17 @@
  */
 
 import React from 'react'
-import { config, isFeatureEnabled, isProviderEnabled } from './config'
+import { config, isFeatureEnabled, isProviderEnabled, type OAuthProviderName } from './config'
+import { readTokenExpiry } from './session'
+import {
+  buildOtpauthUri,
+  findRecoveryCode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+  type MfaEnrollment
+} from './mfa'
 
 // Types
 export interface User {
@@ -17,18 +27,105 @@ export interface User {
   name?: string
   avatar?: string
   role?: string
+  // False until the user follows the confirmation link sent at sign-up
+  emailVerified: boolean
   metadata?: Record<string, any>
 }
 
+export interface Session {
+  accessToken: string
+  refreshToken: string
+  expiresIn: number // seconds
+  expiresAt: number // unix timestamp (seconds)
+}
+
+export type SessionTokens = Pick<Session, 'accessToken' | 'refreshToken'>
+
+export interface AuthResult {
+  user: User
+  // null when the provider needs another step first (e.g. email confirmation)
+  session: Session | null
+}
+
+// Returned by signIn when the password was right but a second factor is enrolled
+export interface MfaRequired {
+  status: 'mfa_required'
+  user: User
+  // Password-only (aal1) session; only good for completing the challenge
+  session: Session
+  factorId: string
+}
+
+// The user behind an access token that is still valid
+export interface RestoredSession {
+  user: User
+  expiresAt: number // unix timestamp (seconds)
+}
+
+export interface MfaEnrollmentResult {
+  // Shown to the user once; only hashes are kept
+  recoveryCodes: string[]
+  // Upgraded (aal2) session, when the provider issues one
+  session: Session | null
+}
+
+export const isMfaRequired = (result: AuthResult | MfaRequired | null): result is MfaRequired => {
+  return !!result && 'status' in result && result.status === 'mfa_required'
+}
+
+export interface OAuthRedirect {
+  // Provider authorization URL to send the browser to
+  url: string
+  // PKCE verifier to keep until the callback, when the provider uses one
+  codeVerifier?: string
+}
+
 export interface AuthProvider {
-  signIn: (email: string, password: string) => Promise<User | null>
-  signUp: (email: string, password: string, name?: string) => Promise<User | null>
-  signOut: () => Promise<void>
+  signIn: (email: string, password: string) => Promise<AuthResult | MfaRequired | null>
+  signUp: (email: string, password: string, name?: string) => Promise<AuthResult | null>
+  signOut: (session?: SessionTokens) => Promise<void>
+  refreshSession: (refreshToken: string) => Promise<AuthResult>
+  restoreSession: (accessToken: string) => Promise<RestoredSession | null>
+  signInWithOAuth: (provider: OAuthProviderName, redirectTo: string) => Promise<OAuthRedirect>
+  // Sign-ins that finish with a redirect need the second factor too, like signIn
+  exchangeOAuthCode: (code: string, codeVerifier?: string) => Promise<AuthResult | MfaRequired>
+  signInWithMagicLink: (email: string, redirectTo: string) => Promise<void>
+  verifyMagicLink: (token: string) => Promise<AuthResult | MfaRequired>
+  resendVerification: (email: string, redirectTo: string) => Promise<void>
+  verifyEmail: (token: string) => Promise<AuthResult | MfaRequired>
+  enrollMfa: (tokens: SessionTokens) => Promise<MfaEnrollment>
+  confirmMfaEnrollment: (tokens: SessionTokens, factorId: string, code: string) => Promise<MfaEnrollmentResult>
+  verifyMfa: (tokens: SessionTokens, factorId: string, code: string) => Promise<AuthResult>
+  recoverMfa: (tokens: SessionTokens, recoveryCode: string) => Promise<AuthResult>
   getCurrentUser: () => Promise<User | null>
   resetPassword: (email: string) => Promise<void>
+  confirmPasswordReset: (token: string, newPassword: string) => Promise<void>
   updateProfile: (updates: Partial<User>) => Promise<User | null>
 }
 
+// Errors with a stable code that API routes can return to the client
+export type AuthErrorCode =
+  | 'invalid_refresh_token'
+  | 'refresh_token_reused'
+  | 'invalid_reset_token'
+  | 'invalid_oauth_code'
+  | 'invalid_magic_link'
+  | 'invalid_verification_token'
+  | 'invalid_session'
+  | 'invalid_mfa_code'
+  | 'invalid_recovery_code'
+
+export class AuthError extends Error {
+  code: AuthErrorCode
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message)
+    this.name = 'AuthError'
+    this.code = code
+    Object.setPrototypeOf(this, AuthError.prototype)
+  }
+}
+
 // Supabase Auth Provider
 class SupabaseAuthProvider implements AuthProvider {
   private supabase: any
@@ -40,36 +137,296 @@ class SupabaseAuthProvider implements AuthProvider {
     }
   }
 
-  async signIn(email: string, password: string): Promise<User | null> {
+  async signIn(email: string, password: string): Promise<AuthResult | MfaRequired | null> {
     if (!this.supabase) return null
-    
-    const { data, error } = await this.supabase.auth.signInWithPassword({
+
+    const { data, error } = await this.authClient().auth.signInWithPassword({
       email,
       password
     })
     
     if (error) throw error
-    return this.transformUser(data.user)
+
+    return this.toSignInResult(data)
+  }
+
+  // Users with a verified TOTP factor only get their password-only (aal1)
+  // session back as the start of the challenge
+  private toSignInResult(data: { user: any; session: any }): AuthResult | MfaRequired {
+    const user = this.transformUser(data.user)
+    const session = this.transformSession(data.session)
+    const factor = data.user.factors?.find(
+      (factor: any) => factor.factor_type === 'totp' && factor.status === 'verified'
+    )
+
+    if (factor && session) {
+      return { status: 'mfa_required', user, session, factorId: factor.id }
+    }
+
+    return { user, session }
   }
 
-  async signUp(email: string, password: string, name?: string): Promise<User | null> {
+  async signUp(email: string, password: string, name?: string): Promise<AuthResult | null> {
     if (!this.supabase) return null
     
-    const { data, error } = await this.supabase.auth.signUp({
+    // The confirm signup email template should link to
+    // {{ .RedirectTo }}&token={{ .TokenHash }}
+    const { data, error } = await this.authClient().auth.signUp({
       email,
       password,
       options: {
-        data: { name }
+        data: { name },
+        emailRedirectTo: `${config.app.url}/api/auth/verify-email?redirect=/`
       }
     })
     
     if (error) throw error
-    return this.transformUser(data.user)
+    if (!data.user) return null
+    return {
+      user: this.transformUser(data.user),
+      session: this.transformSession(data.session)
+    }
   }
 
-  async signOut(): Promise<void> {
+  async signOut(session?: SessionTokens): Promise<void> {
     if (!this.supabase) return
-    await this.supabase.auth.signOut()
+
+    if (!session) {
+      await this.supabase.auth.signOut()
+      return
+    }
+
+    // Revoke this session's refresh token on the server
+    const { error } = await this.supabase.auth.admin.signOut(session.accessToken, 'local')
+    if (!error) return
+
+    // The access token may have expired; exchange the refresh token so it can be revoked.
+    // If the exchange fails, the refresh token is already unusable.
+    const { data, error: refreshError } = await this.authClient().auth.refreshSession({
+      refresh_token: session.refreshToken
+    })
+    if (refreshError || !data.session) return
+
+    const { error: retryError } = await this.supabase.auth.admin.signOut(data.session.access_token, 'local')
+    if (retryError) throw retryError
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    if (!this.supabase) throw new AuthError('invalid_refresh_token', 'Supabase not configured')
+
+    // Supabase rotates the refresh token on every exchange and revokes the
+    // whole session when an already-used token is presented again
+    const { data, error } = await this.authClient().auth.refreshSession({
+      refresh_token: refreshToken
+    })
+
+    if (error?.code === 'refresh_token_already_used') {
+      throw new AuthError('refresh_token_reused', 'Refresh token has already been used')
+    }
+    if (error || !data.session) {
+      throw new AuthError('invalid_refresh_token', 'Invalid refresh token')
+    }
+
+    return {
+      user: this.transformUser(data.user),
+      session: this.transformSession(data.session)
+    }
+  }
+
+  // Look the user up with the access token; nothing is rotated
+  async restoreSession(accessToken: string): Promise<RestoredSession | null> {
+    if (!this.supabase) return null
+
+    const expiresAt = readTokenExpiry(accessToken)
+    if (!expiresAt || expiresAt * 1000 <= Date.now()) return null
+
+    const { data, error } = await this.authClient().auth.getUser(accessToken)
+    if (error || !data.user) return null
+
+    return { user: this.transformUser(data.user), expiresAt }
+  }
+
+  async signInWithOAuth(provider: OAuthProviderName, redirectTo: string): Promise<OAuthRedirect> {
+    if (!this.supabase) throw new Error('Supabase not configured')
+
+    // Start a PKCE flow on a dedicated client and hand the verifier back to the caller
+    const { createAuthClient, AUTH_STORAGE_KEY } = require('./supabase')
+    const items: Record<string, string> = {}
+    const client = createAuthClient(items)
+
+    const { data, error } = await client.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo, skipBrowserRedirect: true }
+    })
+
+    if (error) throw error
+    return { url: data.url, codeVerifier: items[`${AUTH_STORAGE_KEY}-code-verifier`] }
+  }
+
+  async exchangeOAuthCode(code: string, codeVerifier?: string): Promise<AuthResult | MfaRequired> {
+    if (!this.supabase) throw new Error('Supabase not configured')
+
+    const { createAuthClient, AUTH_STORAGE_KEY } = require('./supabase')
+    const client = createAuthClient(
+      codeVerifier ? { [`${AUTH_STORAGE_KEY}-code-verifier`]: codeVerifier } : {}
+    )
+
+    const { data, error } = await client.auth.exchangeCodeForSession(code)
+
+    if (error || !data.session) {
+      throw new AuthError('invalid_oauth_code', 'Sign-in link is invalid or has expired')
+    }
+
+    return this.toSignInResult(data)
+  }
+
+  async signInWithMagicLink(email: string, redirectTo: string): Promise<void> {
+    if (!this.supabase) throw new Error('Supabase not configured')
+
+    // The magic link email template should link to
+    // {{ .RedirectTo }}&token={{ .TokenHash }}
+    const { error } = await this.authClient().auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo, shouldCreateUser: true }
+    })
+
+    if (error) throw error
+  }
+
+  async verifyMagicLink(token: string): Promise<AuthResult | MfaRequired> {
+    if (!this.supabase) throw new Error('Supabase not configured')
+
+    const client = this.authClient()
+    const { data, error } = await client.auth.verifyOtp({
+      token_hash: token,
+      type: 'email'
+    })
+
+    if (error || !data.session) {
+      throw new AuthError('invalid_magic_link', 'Sign-in link is invalid or has expired')
+    }
+
+    return this.toSignInResult(data)
+  }
+
+  async resendVerification(email: string, redirectTo: string): Promise<void> {
+    if (!this.supabase) throw new Error('Supabase not configured')
+
+    const { error } = await this.authClient().auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: redirectTo }
+    })
+
+    if (error) throw error
+  }
+
+  async verifyEmail(token: string): Promise<AuthResult | MfaRequired> {
+    if (!this.supabase) throw new Error('Supabase not configured')
+
+    const client = this.authClient()
+    const { data, error } = await client.auth.verifyOtp({
+      token_hash: token,
+      type: 'signup'
+    })
+
+    if (error || !data.user) {
+      throw new AuthError('invalid_verification_token', 'Verification link is invalid or has expired')
+    }
+
+    return this.toSignInResult(data)
+  }
+
+  async enrollMfa(tokens: SessionTokens): Promise<MfaEnrollment> {
+    const client = await this.sessionClient(tokens)
+
+    const { data, error } = await client.auth.mfa.enroll({
+      factorType: 'totp',
+      issuer: config.app.name
+    })
+
+    if (error) throw error
+    return {
+      factorId: data.id,
+      otpauthUri: data.totp.uri,
+      secret: data.totp.secret,
+      qrCode: data.totp.qr_code
+    }
+  }
+
+  async confirmMfaEnrollment(tokens: SessionTokens, factorId: string, code: string): Promise<MfaEnrollmentResult> {
+    const client = await this.sessionClient(tokens)
+
+    const { data, error } = await client.auth.mfa.challengeAndVerify({ factorId, code })
+    if (error) throw new AuthError('invalid_mfa_code', 'Invalid verification code')
+
+    await this.setMfaEnabled(data.user.id, true)
+    return {
+      recoveryCodes: await this.replaceRecoveryCodes(data.user.id),
+      session: this.transformSession(data)
+    }
+  }
+
+  async verifyMfa(tokens: SessionTokens, factorId: string, code: string): Promise<AuthResult> {
+    const client = await this.sessionClient(tokens)
+
+    const { data, error } = await client.auth.mfa.challengeAndVerify({ factorId, code })
+    if (error) throw new AuthError('invalid_mfa_code', 'Invalid verification code')
+
+    return {
+      user: this.transformUser(data.user),
+      session: this.transformSession(data)
+    }
+  }
+
+  // A recovery code removes the second factor so the user can enroll a new device
+  async recoverMfa(tokens: SessionTokens, recoveryCode: string): Promise<AuthResult> {
+    const { supabaseAdmin } = require('./supabase')
+    if (!supabaseAdmin) {
+      throw new AuthError('invalid_recovery_code', 'Recovery codes are not configured')
+    }
+
+    const client = await this.sessionClient(tokens)
+    const { data: { user }, error } = await client.auth.getUser()
+    if (error || !user) throw new AuthError('invalid_session', 'Session has expired')
+
+    const { data: storedCodes, error: codesError } = await supabaseAdmin
+      .from('mfa_recovery_codes')
+      .select('id, code_hash')
+      .eq('user_id', user.id)
+      .is('used_at', null)
+
+    if (codesError) throw codesError
+
+    const matched = await findRecoveryCode<{ id: string; code_hash: string }>(recoveryCode, storedCodes || [])
+    if (!matched) throw new AuthError('invalid_recovery_code', 'Invalid recovery code')
+
+    // Only unused codes can be marked, which keeps a code single-use under concurrent requests
+    const { data: usedCode } = await supabaseAdmin
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', matched.id)
+      .is('used_at', null)
+      .select()
+      .maybeSingle()
+
+    if (!usedCode) throw new AuthError('invalid_recovery_code', 'Invalid recovery code')
+
+    for (const factor of user.factors || []) {
+      await supabaseAdmin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id })
+    }
+    await supabaseAdmin.from('mfa_recovery_codes').delete().eq('user_id', user.id)
+    await this.setMfaEnabled(user.id, false)
+
+    // The password-only session still claims a second factor; refresh it so the
+    // new token carries the cleared flag and is accepted by the API
+    const { data: { session }, error: refreshError } = await client.auth.refreshSession()
+    if (refreshError || !session) throw new AuthError('invalid_session', 'Session has expired')
+
+    return {
+      user: this.transformUser(session.user),
+      session: this.transformSession(session)
+    }
   }
 
   async getCurrentUser(): Promise<User | null> {
@@ -81,7 +438,33 @@ class SupabaseAuthProvider implements AuthProvider {
 
   async resetPassword(email: string): Promise<void> {
     if (!this.supabase) return
-    await this.supabase.auth.resetPasswordForEmail(email)
+    // The recovery email template should link to
+    // {{ .SiteURL }}/auth/reset-password?token={{ .TokenHash }}
+    const { error } = await this.supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${config.app.url}/auth/reset-password`
+    })
+    if (error) throw error
+  }
+
+  async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    if (!this.supabase) return
+
+    // Verify the recovery token on a dedicated client so the user's session
+    // never touches the shared one
+    const client = this.authClient()
+    const { data, error } = await client.auth.verifyOtp({
+      token_hash: token,
+      type: 'recovery'
+    })
+
+    if (error || !data.session) {
+      throw new AuthError('invalid_reset_token', 'Reset link is invalid or has expired')
+    }
+
+    const { error: updateError } = await client.auth.updateUser({ password: newPassword })
+    if (updateError) throw updateError
+
+    await client.auth.signOut({ scope: 'local' })
   }
 
   async updateProfile(updates: Partial<User>): Promise<User | null> {
@@ -101,42 +484,347 @@ class SupabaseAuthProvider implements AuthProvider {
       email: user.email,
       name: user.user_metadata?.name || user.email?.split('@')[0],
       avatar: user.user_metadata?.avatar_url,
-      role: user.user_metadata?.role || 'user',
+      // Users can edit their own user_metadata, so the role is read from app_metadata
+      role: user.app_metadata?.role || 'user',
+      emailVerified: !!user.email_confirmed_at,
       metadata: user.user_metadata
     }
   }
+
+  private transformSession(session: any): Session | null {
+    if (!session) return null
+    return {
+      accessToken: session.access_token,
+      refreshToken: session.refresh_token,
+      expiresIn: session.expires_in,
+      // MFA verification responses carry only expires_in
+      expiresAt: session.expires_at ?? Math.floor(Date.now() / 1000) + session.expires_in
+    }
+  }
+
+  // Dedicated client per call, so one user's session never lands on the shared
+  // module-level client that every server request uses
+  private authClient() {
+    return require('./supabase').createAuthClient()
+  }
+
+  // Dedicated client acting as the user who owns these tokens
+  private async sessionClient(tokens: SessionTokens) {
+    if (!this.supabase) throw new Error('Supabase not configured')
+
+    const client = this.authClient()
+    const { error } = await client.auth.setSession({
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken
+    })
+
+    if (error) throw new AuthError('invalid_session', 'Session has expired')
+    return client
+  }
+
+  // Mirrored into app_metadata so access tokens say whether an aal1 session is
+  // only half signed in; getSessionUser rejects those
+  private async setMfaEnabled(userId: string, enabled: boolean) {
+    const { supabaseAdmin } = require('./supabase')
+    if (!supabaseAdmin) return
+
+    const { data: { user }, error } = await supabaseAdmin.auth.admin.getUserById(userId)
+    if (error) throw error
+
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+      app_metadata: { ...user?.app_metadata, mfa_enabled: enabled }
+    })
+    if (updateError) throw updateError
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const { supabaseAdmin } = require('./supabase')
+    if (!supabaseAdmin) {
+      console.warn('SUPABASE_SERVICE_ROLE_KEY not set, skipping MFA recovery codes')
+      return []
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    const rows = await Promise.all(
+      recoveryCodes.map(async (code) => ({ user_id: userId, code_hash: await hashRecoveryCode(code) }))
+    )
+
+    await supabaseAdmin.from('mfa_recovery_codes').delete().eq('user_id', userId)
+    const { error } = await supabaseAdmin.from('mfa_recovery_codes').insert(rows)
+    if (error) throw error
+
+    return recoveryCodes
+  }
 }
 
 
 // Mock Auth Provider (for development/testing)
-class MockAuthProvider implements AuthProvider {
+export class MockAuthProvider implements AuthProvider {
   private users: Map<string, User> = new Map()
+  private passwords: Map<string, string> = new Map()
+  // Password reset tokens "emailed" to users, kept so tests can follow the flow
+  readonly resetTokens: Map<string, { email: string; expiresAt: number }> = new Map()
+  // Authorization codes handed out by the simulated OAuth provider
+  private oauthCodes: Map<string, OAuthProviderName> = new Map()
+  // Magic link tokens "emailed" to users, plus the last full link for tests to follow
+  private magicLinkTokens: Map<string, { email: string; expiresAt: number }> = new Map()
+  private lastMagicLink: string | null = null
+  // Sign-up confirmation tokens, with the same "last link" hook as magic links
+  private verificationTokens: Map<string, { email: string; expiresAt: number }> = new Map()
+  private lastVerificationLink: string | null = null
+  // Issued refresh tokens; tokens rotated from the same sign-in share a family
+  private refreshTokens: Map<string, { email: string; family: string; used: boolean }> = new Map()
+  private accessTokens: Map<string, { email: string; expiresAt: number }> = new Map()
+  // TOTP factors and hashed recovery codes per email
+  private mfaFactors: Map<string, { factorId: string; secret: string; verified: boolean }> = new Map()
+  private recoveryCodes: Map<string, string[]> = new Map()
 
-  async signIn(email: string, password: string): Promise<User | null> {
-    // Mock authentication - always succeeds
-    const user: User = {
+  private issueSession(email: string, family: string = `mock_family_${Date.now()}_${Math.random().toString(36).substring(2)}`): Session {
+    const expiresIn = 60 * 60 // 1 hour
+    const refreshToken = `mock_refresh_${Date.now()}_${Math.random().toString(36).substring(2)}`
+    const accessToken = `mock_access_${Date.now()}_${Math.random().toString(36).substring(2)}`
+    const expiresAt = Math.floor(Date.now() / 1000) + expiresIn
+    this.refreshTokens.set(refreshToken, { email, family, used: false })
+    this.accessTokens.set(accessToken, { email, expiresAt })
+    return { accessToken, refreshToken, expiresIn, expiresAt }
+  }
+
+  async signIn(email: string, password: string): Promise<AuthResult | MfaRequired | null> {
+    // Mock authentication - succeeds unless the account has a different known password
+    const knownPassword = this.passwords.get(email)
+    if (knownPassword !== undefined && knownPassword !== password) return null
+
+    const user: User = this.users.get(email) || {
       id: 'mock-user-1',
       email,
       name: email.split('@')[0],
-      role: 'user'
+      role: 'user',
+      emailVerified: true
     }
     this.users.set(email, user)
-    return user
+    return this.toSignInResult(email, user)
   }
 
-  async signUp(email: string, password: string, name?: string): Promise<User | null> {
+  // Every way of signing in stops at the second factor once one is verified
+  private toSignInResult(email: string, user: User): AuthResult | MfaRequired {
+    const factor = this.mfaFactors.get(email)
+    if (factor?.verified) {
+      return { status: 'mfa_required', user, session: this.issueSession(email), factorId: factor.factorId }
+    }
+
+    return { user, session: this.issueSession(email) }
+  }
+
+  async signUp(email: string, password: string, name?: string): Promise<AuthResult | null> {
     const user: User = {
       id: `mock-user-${Date.now()}`,
       email,
       name: name || email.split('@')[0],
-      role: 'user'
+      role: 'user',
+      emailVerified: false
     }
     this.users.set(email, user)
-    return user
+    this.passwords.set(email, password)
+    await this.resendVerification(email, `${config.app.url}/api/auth/verify-email?redirect=/`)
+    return { user, session: this.issueSession(email) }
   }
 
-  async signOut(): Promise<void> {
-    // Mock sign out
+  async signOut(session?: SessionTokens): Promise<void> {
+    const token = session && this.refreshTokens.get(session.refreshToken)
+    if (token) {
+      this.revokeFamily(token.family)
+    }
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    const token = this.refreshTokens.get(refreshToken)
+    const user = token && this.users.get(token.email)
+
+    if (!token || !user) {
+      throw new AuthError('invalid_refresh_token', 'Invalid refresh token')
+    }
+
+    // Reuse of a rotated token means it leaked: revoke every token in the family
+    if (token.used) {
+      this.revokeFamily(token.family)
+      throw new AuthError('refresh_token_reused', 'Refresh token has already been used')
+    }
+
+    token.used = true
+    return { user, session: this.issueSession(token.email, token.family) }
+  }
+
+  async restoreSession(accessToken: string): Promise<RestoredSession | null> {
+    const token = this.accessTokens.get(accessToken)
+    const user = token && this.users.get(token.email)
+
+    if (!token || !user || token.expiresAt * 1000 <= Date.now()) return null
+    return { user, expiresAt: token.expiresAt }
+  }
+
+  // Simulates the provider round trip: the "authorization URL" is the callback itself
+  async signInWithOAuth(provider: OAuthProviderName, redirectTo: string): Promise<OAuthRedirect> {
+    const code = `mock_oauth_${provider}_${Date.now()}_${Math.random().toString(36).substring(2)}`
+    this.oauthCodes.set(code, provider)
+
+    const url = new URL(redirectTo)
+    url.searchParams.set('code', code)
+    return { url: url.toString() }
+  }
+
+  async exchangeOAuthCode(code: string): Promise<AuthResult | MfaRequired> {
+    const provider = this.oauthCodes.get(code)
+    this.oauthCodes.delete(code)
+
+    if (!provider) {
+      throw new AuthError('invalid_oauth_code', 'Sign-in link is invalid or has expired')
+    }
+
+    const email = `mock-${provider}-user@example.com`
+    const user: User = this.users.get(email) || {
+      id: `mock-${provider}-user`,
+      email,
+      name: `Mock ${provider} user`,
+      role: 'user',
+      emailVerified: true,
+      metadata: { provider }
+    }
+    this.users.set(email, user)
+    return this.toSignInResult(email, user)
+  }
+
+  async signInWithMagicLink(email: string, redirectTo: string): Promise<void> {
+    const token = `mock_magic_${Date.now()}_${Math.random().toString(36).substring(2)}`
+    this.magicLinkTokens.set(token, { email, expiresAt: Date.now() + 60 * 60 * 1000 }) // 1 hour
+
+    const link = new URL(redirectTo)
+    link.searchParams.set('token', token)
+    this.lastMagicLink = link.toString()
+  }
+
+  async verifyMagicLink(token: string): Promise<AuthResult | MfaRequired> {
+    const magicLink = this.magicLinkTokens.get(token)
+    this.magicLinkTokens.delete(token)
+
+    if (!magicLink || magicLink.expiresAt < Date.now()) {
+      throw new AuthError('invalid_magic_link', 'Sign-in link is invalid or has expired')
+    }
+
+    // Following the link proves the user owns the address
+    const { email } = magicLink
+    const existing = this.users.get(email)
+    const user: User = existing ? { ...existing, emailVerified: true } : {
+      id: `mock-user-${Date.now()}`,
+      email,
+      name: email.split('@')[0],
+      role: 'user',
+      emailVerified: true
+    }
+    this.users.set(email, user)
+    return this.toSignInResult(email, user)
+  }
+
+  // The link the last magic link "email" contained
+  getLastMagicLink(): string | null {
+    return this.lastMagicLink
+  }
+
+  async resendVerification(email: string, redirectTo: string): Promise<void> {
+    if (this.users.get(email)?.emailVerified !== false) return
+
+    const token = `mock_verify_${Date.now()}_${Math.random().toString(36).substring(2)}`
+    this.verificationTokens.set(token, { email, expiresAt: Date.now() + 24 * 60 * 60 * 1000 }) // 24 hours
+
+    const link = new URL(redirectTo)
+    link.searchParams.set('token', token)
+    this.lastVerificationLink = link.toString()
+  }
+
+  async verifyEmail(token: string): Promise<AuthResult | MfaRequired> {
+    const verification = this.verificationTokens.get(token)
+    this.verificationTokens.delete(token)
+    const existing = verification && this.users.get(verification.email)
+
+    if (!verification || !existing || verification.expiresAt < Date.now()) {
+      throw new AuthError('invalid_verification_token', 'Verification link is invalid or has expired')
+    }
+
+    const user: User = { ...existing, emailVerified: true }
+    this.users.set(verification.email, user)
+    return this.toSignInResult(verification.email, user)
+  }
+
+  // The link the last verification "email" contained
+  getLastVerificationLink(): string | null {
+    return this.lastVerificationLink
+  }
+
+  async enrollMfa(tokens: SessionTokens): Promise<MfaEnrollment> {
+    const email = this.emailForTokens(tokens)
+    const secret = generateTotpSecret()
+    const factorId = `mock_factor_${Date.now()}`
+
+    this.mfaFactors.set(email, { factorId, secret, verified: false })
+    return {
+      factorId,
+      secret,
+      otpauthUri: buildOtpauthUri(secret, email, config.app.name)
+    }
+  }
+
+  async confirmMfaEnrollment(tokens: SessionTokens, factorId: string, code: string): Promise<MfaEnrollmentResult> {
+    const email = this.emailForTokens(tokens)
+    const factor = this.mfaFactors.get(email)
+
+    if (!factor || factor.factorId !== factorId || !(await verifyTotp(factor.secret, code))) {
+      throw new AuthError('invalid_mfa_code', 'Invalid verification code')
+    }
+
+    factor.verified = true
+    const recoveryCodes = generateRecoveryCodes()
+    this.recoveryCodes.set(email, await Promise.all(recoveryCodes.map(hashRecoveryCode)))
+    return { recoveryCodes, session: null }
+  }
+
+  async verifyMfa(tokens: SessionTokens, factorId: string, code: string): Promise<AuthResult> {
+    const email = this.emailForTokens(tokens)
+    const factor = this.mfaFactors.get(email)
+
+    if (!factor?.verified || factor.factorId !== factorId || !(await verifyTotp(factor.secret, code))) {
+      throw new AuthError('invalid_mfa_code', 'Invalid verification code')
+    }
+
+    // Swap the password-only session for a fresh one
+    await this.signOut(tokens)
+    return { user: this.users.get(email)!, session: this.issueSession(email) }
+  }
+
+  async recoverMfa(tokens: SessionTokens, recoveryCode: string): Promise<AuthResult> {
+    const email = this.emailForTokens(tokens)
+    const hashes = this.recoveryCodes.get(email) || []
+    const matched = await findRecoveryCode(recoveryCode, hashes.map((codeHash) => ({ code_hash: codeHash })))
+
+    if (!matched) {
+      throw new AuthError('invalid_recovery_code', 'Invalid recovery code')
+    }
+
+    this.mfaFactors.delete(email)
+    this.recoveryCodes.delete(email)
+
+    await this.signOut(tokens)
+    return { user: this.users.get(email)!, session: this.issueSession(email) }
+  }
+
+  private emailForTokens(tokens: SessionTokens): string {
+    const token = this.accessTokens.get(tokens.accessToken)
+    if (!token) throw new AuthError('invalid_session', 'Session has expired')
+    return token.email
+  }
+
+  private revokeFamily(family: string) {
+    this.refreshTokens.forEach((token, key) => {
+      if (token.family === family) this.refreshTokens.delete(key)
+    })
   }
 
   async getCurrentUser(): Promise<User | null> {
@@ -145,7 +833,35 @@ class MockAuthProvider implements AuthProvider {
   }
 
   async resetPassword(email: string): Promise<void> {
-    // Mock password reset
+    if (!this.users.has(email)) return
+
+    const token = `mock_reset_${Date.now()}_${Math.random().toString(36).substring(2)}`
+    this.resetTokens.set(token, { email, expiresAt: Date.now() + 60 * 60 * 1000 }) // 1 hour
+  }
+
+  async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    const reset = this.resetTokens.get(token)
+    this.resetTokens.delete(token)
+
+    if (!reset || reset.expiresAt < Date.now()) {
+      throw new AuthError('invalid_reset_token', 'Reset link is invalid or has expired')
+    }
+
+    this.passwords.set(reset.email, newPassword)
+
+    // Sign out every existing session for the account
+    this.refreshTokens.forEach((refreshToken) => {
+      if (refreshToken.email === reset.email) this.revokeFamily(refreshToken.family)
+    })
+  }
+
+  // Most recent reset token issued for an email, as it would appear in the email link
+  getLastResetToken(email: string): string | null {
+    let last: string | null = null
+    this.resetTokens.forEach((reset, token) => {
+      if (reset.email === email) last = token
+    })
+    return last
   }
 
   async updateProfile(updates: Partial<User>): Promise<User | null> {
@@ -156,11 +872,11 @@ class MockAuthProvider implements AuthProvider {
 
 // No Auth Provider (when authentication is disabled)
 class NoAuthProvider implements AuthProvider {
-  async signIn(): Promise<User | null> {
+  async signIn(): Promise<AuthResult | null> {
     throw new Error('Authentication is disabled')
   }
 
-  async signUp(): Promise<User | null> {
+  async signUp(): Promise<AuthResult | null> {
     throw new Error('Authentication is disabled')
   }
 
@@ -168,6 +884,54 @@ class NoAuthProvider implements AuthProvider {
     // No-op
   }
 
+  async refreshSession(): Promise<AuthResult> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async restoreSession(): Promise<RestoredSession | null> {
+    return null
+  }
+
+  async signInWithOAuth(): Promise<OAuthRedirect> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async exchangeOAuthCode(): Promise<AuthResult> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async signInWithMagicLink(): Promise<void> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async verifyMagicLink(): Promise<AuthResult> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async resendVerification(): Promise<void> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async verifyEmail(): Promise<AuthResult> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async enrollMfa(): Promise<MfaEnrollment> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async confirmMfaEnrollment(): Promise<MfaEnrollmentResult> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async verifyMfa(): Promise<AuthResult> {
+    throw new Error('Authentication is disabled')
+  }
+
+  async recoverMfa(): Promise<AuthResult> {
+    throw new Error('Authentication is disabled')
+  }
+
   async getCurrentUser(): Promise<User | null> {
     return null
   }
@@ -176,6 +940,10 @@ class NoAuthProvider implements AuthProvider {
     throw new Error('Authentication is disabled')
   }
 
+  async confirmPasswordReset(): Promise<void> {
+    throw new Error('Authentication is disabled')
+  }
+
   async updateProfile(): Promise<User | null> {
     throw new Error('Authentication is disabled')
   }
@@ -193,7 +961,12 @@ export const getAuthProvider = (): AuthProvider => {
 
   // Fallback to mock provider for development
   if (process.env.NODE_ENV === 'development') {
-    return new MockAuthProvider()
+    // Share one instance across route bundles so issued tokens survive between requests
+    const globalForAuth = globalThis as unknown as { mockAuthProvider?: MockAuthProvider }
+    if (!globalForAuth.mockAuthProvider) {
+      globalForAuth.mockAuthProvider = new MockAuthProvider()
+    }
+    return globalForAuth.mockAuthProvider
   }
 
   return new NoAuthProvider()
@@ -202,10 +975,110 @@ export const getAuthProvider = (): AuthProvider => {
 // Export the auth provider instance
 export const auth = getAuthProvider()
 
+// Client-side session state, shared by every useAuth() instance
+interface SessionState {
+  user: User | null
+  sessionExpiresAt: number | null // unix timestamp (seconds)
+}
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000
+
+let sessionState: SessionState | null = null
+let restorePromise: Promise<SessionState> | null = null
+let refreshPromise: Promise<SessionState> | null = null
+let refreshTimer: ReturnType<typeof setTimeout> | null = null
+const sessionListeners = new Set<(state: SessionState) => void>()
+
+const publishSession = (state: SessionState) => {
+  sessionState = state
+
+  if (refreshTimer) clearTimeout(refreshTimer)
+  refreshTimer = null
+
+  if (state.sessionExpiresAt) {
+    const delay = Math.max(state.sessionExpiresAt * 1000 - Date.now() - REFRESH_MARGIN_MS, 0)
+    // Another tab may have refreshed already, so check the cookie before rotating
+    refreshTimer = setTimeout(() => { restoreSession() }, delay)
+  }
+
+  sessionListeners.forEach((listener) => listener(state))
+}
+
+// Rotate the session cookies; concurrent callers share one request so a
+// refresh token is never presented twice
+export const refreshSession = (): Promise<SessionState> => {
+  if (!refreshPromise) {
+    refreshPromise = fetch('/api/auth/refresh', { method: 'POST', credentials: 'same-origin' })
+      .then(async (response) => {
+        const data = response.ok ? await response.json() : null
+        return {
+          user: data?.user || null,
+          sessionExpiresAt: data?.sessionExpiresAt || null
+        }
+      })
+      .catch(() => ({ user: null, sessionExpiresAt: null }))
+      .then((state) => {
+        refreshPromise = null
+        publishSession(state)
+        return state
+      })
+  }
+  return refreshPromise
+}
+
+// Read the session from the cookie. Only refresh when the access token is
+// missing or about to expire: every refresh rotates the refresh token, and
+// rotating on every page load trips reuse detection across tabs.
+export const restoreSession = (): Promise<SessionState> => {
+  if (!restorePromise) {
+    restorePromise = fetch('/api/auth/session', { credentials: 'same-origin' })
+      .then(async (response) => (response.ok ? await response.json() : null))
+      .catch(() => null)
+      .then((data) => {
+        restorePromise = null
+        const expiresAt = data?.sessionExpiresAt
+        if (!data?.user || !expiresAt || expiresAt * 1000 - Date.now() <= REFRESH_MARGIN_MS) {
+          return refreshSession()
+        }
+
+        const state = { user: data.user, sessionExpiresAt: expiresAt }
+        publishSession(state)
+        return state
+      })
+  }
+  return restorePromise
+}
+
+// fetch() that refreshes the session and retries once when the API answers 401
+export const authFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+  const response = await fetch(input, { credentials: 'same-origin', ...init })
+  if (response.status !== 401) return response
+
+  const state = await refreshSession()
+  if (!state.user) return response
+
+  return fetch(input, { credentials: 'same-origin', ...init })
+}
+
+const postAuth = async (path: string, body?: Record<string, any>, fetcher: typeof fetch = fetch) => {
+  const response = await fetcher(path, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || 'Authentication failed')
+  return data
+}
+
 // React hook for authentication
 export const useAuth = () => {
-  const [user, setUser] = React.useState<User | null>(null)
-  const [loading, setLoading] = React.useState(true)
+  const [state, setState] = React.useState<SessionState>(
+    sessionState || { user: null, sessionExpiresAt: null }
+  )
+  const [loading, setLoading] = React.useState(!sessionState)
 
   React.useEffect(() => {
     if (!isFeatureEnabled('authentication')) {
@@ -213,43 +1086,122 @@ export const useAuth = () => {
       return
     }
 
-    auth.getCurrentUser().then((user) => {
-      setUser(user)
+    const listener = (next: SessionState) => {
+      setState(next)
       setLoading(false)
-    })
+    }
+    sessionListeners.add(listener)
+
+    // Session cookies are httpOnly, so ask the server who is signed in
+    if (sessionState) {
+      listener(sessionState)
+    } else {
+      restoreSession()
+    }
+
+    return () => {
+      sessionListeners.delete(listener)
+    }
   }, [])
 
+  // Resolves with mfaRequired when a code must be passed to verifyMfa() next
   const signIn = async (email: string, password: string) => {
-    const user = await auth.signIn(email, password)
-    setUser(user)
-    return user
+    const data = await postAuth('/api/auth/login', { email, password })
+    if (data.mfaRequired) {
+      return { user: null, mfaRequired: true }
+    }
+    publishSession({ user: data.user, sessionExpiresAt: data.sessionExpiresAt })
+    return { user: data.user as User, mfaRequired: false }
+  }
+
+  const verifyMfa = async (code: string) => {
+    const data = await postAuth('/api/auth/mfa/verify', { code })
+    publishSession({ user: data.user, sessionExpiresAt: data.sessionExpiresAt })
+    return data.user as User
   }
 
+  // Signs in with a recovery code; this also removes the lost authenticator
+  const recoverMfa = async (recoveryCode: string) => {
+    const data = await postAuth('/api/auth/mfa/verify', { recoveryCode })
+    publishSession({ user: data.user, sessionExpiresAt: data.sessionExpiresAt })
+    return data.user as User
+  }
+
+  const enrollMfa = async (): Promise<MfaEnrollment> => {
+    const data = await postAuth('/api/auth/mfa/enroll', undefined, authFetch)
+    return data.enrollment
+  }
+
+  const confirmMfaEnrollment = async (factorId: string, code: string) => {
+    const data = await postAuth('/api/auth/mfa/enroll/verify', { factorId, code }, authFetch)
+    if (data.sessionExpiresAt) {
+      publishSession({ user: state.user, sessionExpiresAt: data.sessionExpiresAt })
+    }
+    return data.recoveryCodes as string[]
+  }
+
+  // Check user.emailVerified on the result; unverified users are sent a confirmation link
   const signUp = async (email: string, password: string, name?: string) => {
-    const user = await auth.signUp(email, password, name)
-    setUser(user)
-    return user
+    const data = await postAuth('/api/auth/signup', { email, password, name })
+    // No session yet when the provider requires confirmation before sign-in
+    if (data.sessionExpiresAt) {
+      publishSession({ user: data.user, sessionExpiresAt: data.sessionExpiresAt })
+    }
+    return data.user as User
+  }
+
+  const resendVerification = async (email: string, redirectTo = '/') => {
+    await postAuth('/api/auth/verify-email/resend', { email, redirect: redirectTo })
   }
 
   const signOut = async () => {
-    await auth.signOut()
-    setUser(null)
+    await postAuth('/api/auth/logout')
+    publishSession({ user: null, sessionExpiresAt: null })
+  }
+
+  // Full-page redirect through the provider; the callback route sets the session cookies
+  const signInWithOAuth = (provider: OAuthProviderName, redirectTo = '/') => {
+    const params = new URLSearchParams({ provider, redirect: redirectTo })
+    window.location.href = `/api/auth/oauth?${params.toString()}`
+  }
+
+  const sendMagicLink = async (email: string, redirectTo = '/') => {
+    await postAuth('/api/auth/magic-link', { email, redirect: redirectTo })
+  }
+
+  const resetPassword = async (email: string) => {
+    await postAuth('/api/auth/reset-password', { email })
+  }
+
+  const confirmPasswordReset = async (token: string, password: string) => {
+    await postAuth('/api/auth/reset-password/confirm', { token, password })
   }
 
   const updateProfile = async (updates: Partial<User>) => {
     const user = await auth.updateProfile(updates)
-    setUser(user)
+    publishSession({ user, sessionExpiresAt: state.sessionExpiresAt })
     return user
   }
 
   return {
-    user,
+    user: state.user,
     loading,
     signIn,
     signUp,
     signOut,
+    verifyMfa,
+    recoverMfa,
+    enrollMfa,
+    confirmMfaEnrollment,
+    signInWithOAuth,
+    sendMagicLink,
+    resendVerification,
+    resetPassword,
+    confirmPasswordReset,
     updateProfile,
-    isAuthenticated: !!user,
+    authFetch,
+    sessionExpiresAt: state.sessionExpiresAt,
+    isAuthenticated: !!state.user,
     isAuthEnabled: isFeatureEnabled('authentication')
   }
 }
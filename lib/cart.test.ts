@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabaseFake as fake } from '../test/supabase'
+
+vi.mock('./supabase', async () => {
+  const { supabaseFake } = await import('../test/supabase')
+  return { supabase: supabaseFake.client, requireSupabaseAdmin: () => supabaseFake.client }
+})
+
+import { addCartItem, getCartId, removeCartItem, setCartItemQuantity } from './cart'
+import { PricingError } from './products'
+
+beforeEach(() => {
+  fake.reset()
+})
+
+describe('getCartId', () => {
+  it('returns the cart a concurrent request created first', async () => {
+    fake.queue('carts', { data: null }, {}, { data: { id: 'cart_first' } })
+
+    await expect(getCartId({ userId: null, guestToken: 'token_1' }, true)).resolves.toBe('cart_first')
+    expect(fake.callsTo('carts', 'upsert')[0].args).toEqual([
+      { guest_token: 'token_1' },
+      { onConflict: 'guest_token', ignoreDuplicates: true }
+    ])
+  })
+
+  it('issues a token to a new guest', async () => {
+    fake.queue('carts', {}, { data: { id: 'cart_1' } })
+    const owner = { userId: null, guestToken: null }
+
+    await expect(getCartId(owner, true)).resolves.toBe('cart_1')
+    expect(owner).toMatchObject({ guestToken: expect.any(String), cookie: 'set' })
+  })
+})
+
+describe('cart items', () => {
+  it('rejects product ids that are not uuids before querying', async () => {
+    await expect(addCartItem('cart_1', 'prod_1')).rejects.toThrow(PricingError)
+    await expect(setCartItemQuantity('cart_1', 'prod_1', 1)).rejects.toMatchObject({ code: 'invalid_items' })
+    await expect(removeCartItem('cart_1', "1' or '1'='1")).rejects.toMatchObject({ code: 'invalid_items' })
+
+    expect(fake.calls).toEqual([])
+  })
+})
@@ -0,0 +1,376 @@
+/**
+ * Shopping Cart
+ *
+ * Server helpers for the carts and cart_items tables, plus the client-side
+ * useCart store. Signed-in users have one cart each; guests get a cart keyed
+ * by a random token in an httpOnly cookie, which is merged into the user's
+ * cart when they sign in (or, failing that, on their next cart request).
+ * Prices are never stored on the cart; they are read from the products table
+ * every time.
+ */
+
+import { create } from 'zustand'
+import type { NextRequest, NextResponse } from 'next/server'
+import { requireSupabaseAdmin } from './supabase'
+import { isProductId, priceItems, PricingError, type PurchaseRequestItem } from './products'
+import { fromMinorUnits, normalizeCurrency, toMinorUnits } from './money'
+import { getSessionUser, sessionCookieOptions } from './session'
+import { isProviderEnabled } from './config'
+import { authFetch } from './auth'
+
+// The cookie holds an unguessable token, never the cart id itself
+export const CART_COOKIE = 'cart-token'
+export const CART_COOKIE_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
+
+const getClient = () => requireSupabaseAdmin('manage carts')
+
+// Types
+export interface CartOwner {
+  userId: string | null
+  guestToken: string | null
+  // Whether the response must write or remove the guest cookie
+  cookie?: 'set' | 'clear'
+}
+
+export interface CartLine {
+  productId: string
+  name: string
+  imageUrl: string | null
+  // In major units of `currency`, at the product's current price
+  unitPrice: number
+  currency: string
+  quantity: number
+  total: number
+  // False when the product was deactivated or has too little stock left
+  available: boolean
+}
+
+export interface Cart {
+  id: string | null
+  items: CartLine[]
+  itemCount: number
+  subtotal: number
+  currency: string | null
+}
+
+const EMPTY_CART: Cart = { id: null, items: [], itemCount: 0, subtotal: 0, currency: null }
+
+const checkProductId = (productId: string) => {
+  if (!isProductId(productId)) {
+    throw new PricingError('invalid_items', 'Invalid product ID', productId)
+  }
+}
+
+const mergeGuestCart = async (guestToken: string, userId: string) => {
+  const { error } = await getClient().rpc('merge_guest_cart', {
+    p_guest_token: guestToken,
+    p_user_id: userId
+  })
+
+  if (error) throw error
+}
+
+// Who the request's cart belongs to. A guest cart still in the cookie is
+// merged into the user's cart here, and the cookie cleared.
+export const getCartOwner = async (request: NextRequest): Promise<CartOwner> => {
+  const user = await getSessionUser(request)
+  const guestToken = request.cookies.get(CART_COOKIE)?.value || null
+
+  if (!user) return { userId: null, guestToken }
+  if (!guestToken) return { userId: user.id, guestToken: null }
+
+  await mergeGuestCart(guestToken, user.id)
+  return { userId: user.id, guestToken: null, cookie: 'clear' }
+}
+
+// Called by the sign-in routes, so the guest cart is the user's cart before
+// the browser asks for it. A failed merge doesn't fail the sign-in; the cookie
+// is kept and getCartOwner tries again.
+export const mergeGuestCartOnSignIn = async <T extends NextResponse>(
+  request: NextRequest,
+  response: T,
+  userId: string
+): Promise<T> => {
+  const guestToken = request.cookies.get(CART_COOKIE)?.value
+  if (!guestToken || !isProviderEnabled('supabase')) return response
+
+  try {
+    await mergeGuestCart(guestToken, userId)
+  } catch (error) {
+    console.error('Guest cart merge error:', error)
+    return response
+  }
+
+  return applyCartCookie(response, { userId, guestToken: null, cookie: 'clear' })
+}
+
+// Write or remove the guest cookie, as getCartOwner or getCartId asked for
+export const applyCartCookie = <T extends NextResponse>(response: T, owner: CartOwner): T => {
+  if (owner.cookie === 'set' && owner.guestToken) {
+    response.cookies.set(CART_COOKIE, owner.guestToken, {
+      ...sessionCookieOptions,
+      maxAge: CART_COOKIE_MAX_AGE
+    })
+  } else if (owner.cookie === 'clear') {
+    response.cookies.set(CART_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 })
+  }
+  return response
+}
+
+// The owner's cart id. With `create`, a missing cart is created; for a new
+// guest this also issues the token and marks the cookie to be set.
+export const getCartId = async (owner: CartOwner, create = false): Promise<string | null> => {
+  const client = getClient()
+
+  if (owner.userId || owner.guestToken) {
+    let query = client.from('carts').select('id')
+    query = owner.userId
+      ? query.eq('user_id', owner.userId)
+      : query.eq('guest_token', owner.guestToken!).is('user_id', null)
+
+    const { data, error } = await query.maybeSingle()
+    if (error) throw error
+    if (data) return data.id
+  }
+
+  if (!create) return null
+
+  if (!owner.userId && !owner.guestToken) {
+    owner.guestToken = crypto.randomUUID()
+    owner.cookie = 'set'
+  }
+
+  // A concurrent request may have created the same cart; keep the stored one
+  const { error } = await client
+    .from('carts')
+    .upsert(
+      owner.userId ? { user_id: owner.userId } : { guest_token: owner.guestToken },
+      { onConflict: owner.userId ? 'user_id' : 'guest_token', ignoreDuplicates: true }
+    )
+
+  if (error) throw error
+  return getCartId(owner)
+}
+
+// The cart with current prices and availability
+export const getCart = async (cartId: string | null): Promise<Cart> => {
+  if (!cartId) return EMPTY_CART
+
+  const { data, error } = await getClient()
+    .from('cart_items')
+    .select(`
+      product_id,
+      quantity,
+      products:product_id (name, image_url, price, currency, active, track_inventory, stock_quantity)
+    `)
+    .eq('cart_id', cartId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  const items: CartLine[] = (data || []).map((row: any) => {
+    const product = row.products
+    const currency = normalizeCurrency(product.currency)
+    return {
+      productId: row.product_id,
+      name: product.name,
+      imageUrl: product.image_url,
+      unitPrice: product.price,
+      currency,
+      quantity: row.quantity,
+      total: fromMinorUnits(toMinorUnits(product.price, currency) * row.quantity, currency),
+      available: product.active && (!product.track_inventory || product.stock_quantity >= row.quantity)
+    }
+  })
+
+  const currency = items[0]?.currency ?? null
+  return {
+    id: cartId,
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: currency
+      ? fromMinorUnits(items.reduce((sum, item) => sum + toMinorUnits(item.total, currency), 0), currency)
+      : 0,
+    currency
+  }
+}
+
+// Product ids and quantities to price an order or checkout from
+export const getCartPurchaseItems = async (cartId: string): Promise<PurchaseRequestItem[]> => {
+  const { data, error } = await getClient()
+    .from('cart_items')
+    .select('product_id, quantity')
+    .eq('cart_id', cartId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map((row: any) => ({ productId: row.product_id, quantity: row.quantity }))
+}
+
+const touchCart = async (cartId: string) => {
+  const { error } = await getClient()
+    .from('carts')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', cartId)
+
+  if (error) throw error
+}
+
+// Set a line's quantity after checking the product is on sale, in stock and
+// priced in the same currency as the rest of the cart
+export const setCartItemQuantity = async (cartId: string, productId: string, quantity: number) => {
+  checkProductId(productId)
+
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new PricingError('invalid_quantity', 'Quantities must be whole numbers of at least 1', productId)
+  }
+
+  const [priced] = await priceItems([{ productId, quantity }])
+  const { items } = await getCart(cartId)
+  if (items.some((item) => item.productId !== productId && item.currency !== priced.currency)) {
+    throw new PricingError('mixed_currency', 'All items must use the same currency', productId)
+  }
+
+  const { error } = await getClient()
+    .from('cart_items')
+    .upsert(
+      { cart_id: cartId, product_id: productId, quantity, updated_at: new Date().toISOString() },
+      { onConflict: 'cart_id,product_id' }
+    )
+
+  if (error) throw error
+  await touchCart(cartId)
+}
+
+// Add to the quantity already in the cart
+export const addCartItem = async (cartId: string, productId: string, quantity = 1) => {
+  checkProductId(productId)
+
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new PricingError('invalid_quantity', 'Quantities must be whole numbers of at least 1', productId)
+  }
+
+  const { data, error } = await getClient()
+    .from('cart_items')
+    .select('quantity')
+    .eq('cart_id', cartId)
+    .eq('product_id', productId)
+    .maybeSingle()
+
+  if (error) throw error
+  await setCartItemQuantity(cartId, productId, (data?.quantity || 0) + quantity)
+}
+
+// Returns false when the product was not in the cart
+export const removeCartItem = async (cartId: string, productId: string): Promise<boolean> => {
+  checkProductId(productId)
+
+  const { data, error } = await getClient()
+    .from('cart_items')
+    .delete()
+    .eq('cart_id', cartId)
+    .eq('product_id', productId)
+    .select('id')
+
+  if (error) throw error
+  if (!data?.length) return false
+
+  await touchCart(cartId)
+  return true
+}
+
+// Empty the cart. Pass `before` to keep lines changed after that moment, so a
+// paid checkout doesn't remove items added while the customer was paying.
+export const clearCart = async (cartId: string, before?: Date) => {
+  let query = getClient().from('cart_items').delete().eq('cart_id', cartId)
+  if (before) {
+    query = query.lte('updated_at', before.toISOString())
+  }
+
+  const { error } = await query
+  if (error) throw error
+  await touchCart(cartId)
+}
+
+// Client-side cart store, shared by every component that uses it
+interface CartState {
+  cart: Cart
+  loading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  addItem: (productId: string, quantity?: number) => Promise<void>
+  updateQuantity: (productId: string, quantity: number) => Promise<void>
+  removeItem: (productId: string) => Promise<void>
+  clear: () => Promise<void>
+  // Redirects to the payment page for the whole cart
+  checkout: (options?: { successUrl?: string; cancelUrl?: string; promotionCode?: string }) => Promise<void>
+}
+
+export const useCart = create<CartState>((set, get) => {
+  // Every cart route answers with the updated cart
+  const request = async (path: string, init?: RequestInit) => {
+    set({ loading: true, error: null })
+    try {
+      const response = await authFetch(path, {
+        ...init,
+        headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Cart request failed')
+      set({ cart: data.cart, loading: false })
+    } catch (error) {
+      set({ loading: false, error: error instanceof Error ? error.message : 'Cart request failed' })
+      throw error
+    }
+  }
+
+  return {
+    cart: EMPTY_CART,
+    loading: false,
+    error: null,
+
+    refresh: () => request('/api/cart'),
+
+    addItem: (productId, quantity = 1) => request('/api/cart/items', {
+      method: 'POST',
+      body: JSON.stringify({ productId, quantity })
+    }),
+
+    updateQuantity: (productId, quantity) => request(`/api/cart/items/${encodeURIComponent(productId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ quantity })
+    }),
+
+    removeItem: (productId) => request(`/api/cart/items/${encodeURIComponent(productId)}`, {
+      method: 'DELETE'
+    }),
+
+    clear: () => request('/api/cart', { method: 'DELETE' }),
+
+    // The server checks out whichever cart the caller owns now, so a cart id
+    // from before signing in can't go stale
+    checkout: async (options = {}) => {
+      const { cart } = get()
+      if (!cart.itemCount) throw new Error('Cart is empty')
+
+      const origin = window.location.origin
+      const response = await authFetch('/api/payments/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode: 'payment',
+          cart: true,
+          successUrl: options.successUrl || `${origin}/cart?checkout=success`,
+          cancelUrl: options.cancelUrl || `${origin}/cart`,
+          promotionCode: options.promotionCode
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        set({ error: data.error || 'Checkout failed' })
+        throw new Error(data.error || 'Checkout failed')
+      }
+      window.location.href = data.checkoutSession.url
+    }
+  }
+})
@@ -13,6 +13,8 @@ export interface FeatureConfig {
   fallback?: string
 }
 
+export type OAuthProviderName = 'github' | 'google'
+
 export interface XionConfig {
   // Core Features
   features: {
@@ -31,6 +33,7 @@ export interface XionConfig {
     supabase: FeatureConfig & {
       url?: string
       anonKey?: string
+      jwtSecret?: string
     }
     stripe: FeatureConfig & {
       publishableKey?: string
@@ -45,6 +48,9 @@ export interface XionConfig {
       secretAccessKey?: string
       region?: string
     }
+    oauth: FeatureConfig & {
+      providers: Record<OAuthProviderName, FeatureConfig>
+    }
   }
   
   // UI Configuration
@@ -114,7 +120,8 @@ const defaultConfig: XionConfig = {
       enabled: !!(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY),
       required: false,
       url: process.env.NEXT_PUBLIC_SUPABASE_URL,
-      anonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+      anonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+      jwtSecret: process.env.SUPABASE_JWT_SECRET
     },
     stripe: {
       enabled: !!(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY && process.env.STRIPE_SECRET_KEY),
@@ -134,6 +141,19 @@ const defaultConfig: XionConfig = {
       accessKeyId: process.env.AWS_ACCESS_KEY_ID,
       secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
       region: process.env.AWS_REGION || 'us-east-1'
+    },
+    oauth: {
+      enabled: process.env.NEXT_PUBLIC_ENABLE_OAUTH_GITHUB === 'true' ||
+        process.env.NEXT_PUBLIC_ENABLE_OAUTH_GOOGLE === 'true',
+      required: false,
+      providers: {
+        github: {
+          enabled: process.env.NEXT_PUBLIC_ENABLE_OAUTH_GITHUB === 'true'
+        },
+        google: {
+          enabled: process.env.NEXT_PUBLIC_ENABLE_OAUTH_GOOGLE === 'true'
+        }
+      }
     }
   },
   
@@ -164,6 +184,13 @@ export const isProviderEnabled = (provider: keyof XionConfig['providers']): bool
   return config.providers[provider].enabled
 }
 
+export const getEnabledOAuthProviders = (): OAuthProviderName[] => {
+  const { providers } = config.providers.oauth
+  return (Object.keys(providers) as OAuthProviderName[]).filter(
+    (provider) => providers[provider].enabled
+  )
+}
+
 export const getFeatureFallback = (feature: keyof XionConfig['features']): string => {
   return config.features[feature].fallback || 'Feature disabled'
 }
@@ -194,6 +221,10 @@ export const validateConfig = (): { valid: boolean; errors: string[] } => {
     errors.push('Payments feature enabled but Stripe provider not configured')
   }
   
+  if (config.providers.oauth.enabled && !config.features.authentication.enabled) {
+    errors.push('OAuth providers configured but authentication feature is disabled')
+  }
+
   if (config.features.email.enabled && !config.providers.sendgrid.enabled) {
     errors.push('Email feature enabled but SendGrid provider not configured')
   }
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('./supabase', () => ({ requireSupabaseAdmin: vi.fn() }))
+
+import { getInvoiceLines, renderInvoicePdf, type Invoice } from './invoices'
+
+const item = (lineTotal: number, quantity = 1, name = 'Widget') => ({
+  product_name: name,
+  quantity,
+  unit_price: lineTotal / quantity,
+  line_total: lineTotal
+})
+
+describe('getInvoiceLines', () => {
+  it('splits tax-inclusive lines into net and tax', () => {
+    const { lines, totals } = getInvoiceLines([item(10)], 20, 'usd')
+
+    expect(lines[0]).toMatchObject({ net: 8.33, tax: 1.67, total: 10 })
+    expect(totals).toEqual({ subtotal: 10, discount: 0, net: 8.33, tax: 1.67, total: 10 })
+  })
+
+  it('rounds each line and adds the rounded lines up exactly', () => {
+    const { lines, totals } = getInvoiceLines([item(0.05), item(0.05), item(0.05)], 20, 'usd')
+
+    // 0.833 cents of tax per line rounds to 1 cent each
+    expect(lines.map((line) => line.tax)).toEqual([0.01, 0.01, 0.01])
+    expect(totals).toMatchObject({ net: 0.12, tax: 0.03, total: 0.15 })
+  })
+
+  it('works in whole units for zero-decimal currencies', () => {
+    const { totals } = getInvoiceLines([item(1000)], 10, 'jpy')
+
+    expect(totals).toMatchObject({ net: 909, tax: 91, total: 1000 })
+  })
+
+  it('takes a discount off the total and its share of tax off the tax', () => {
+    const { totals } = getInvoiceLines([item(15), item(10)], 20, 'usd', 20)
+
+    expect(totals).toEqual({ subtotal: 25, discount: 5, net: 16.66, tax: 3.34, total: 20 })
+  })
+
+  it('charges the full total when the amount paid was not recorded', () => {
+    const { totals } = getInvoiceLines([item(25)], 0, 'usd', null)
+
+    expect(totals).toEqual({ subtotal: 25, discount: 0, net: 25, tax: 0, total: 25 })
+  })
+})
+
+describe('renderInvoicePdf', () => {
+  const invoice: Invoice = {
+    id: 'inv_1',
+    orderId: 'order_1',
+    number: 'INV-000042',
+    taxRate: 20,
+    issuedAt: '2026-10-19T12:00:00Z'
+  }
+
+  const order = {
+    id: 'order_1',
+    user_id: null,
+    status: 'paid',
+    currency: 'usd',
+    created_at: '2026-10-18T09:30:00Z',
+    amount_paid: 20,
+    order_items: [item(15, 3, 'Blue widget'), item(10)]
+  }
+
+  const render = (orderOverrides: Record<string, any> = {}) => {
+    const buffer = renderInvoicePdf(invoice, { ...order, ...orderOverrides })
+    return String.fromCharCode(...Array.from(new Uint8Array(buffer)))
+  }
+
+  it('writes a PDF with the invoice number, lines and discount', () => {
+    const pdf = render()
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('INV-000042')
+    expect(pdf).toContain('(Blue widget)')
+    expect(pdf).toContain('(Discount)')
+    expect(pdf).toContain('(Guest customer)')
+  })
+
+  it('leaves the discount line out when the full total was charged', () => {
+    expect(render({ amount_paid: 25 })).not.toContain('(Discount)')
+  })
+})
@@ -0,0 +1,269 @@
+/**
+ * Invoices
+ *
+ * Issues sequentially numbered invoices for paid orders and renders them as
+ * PDFs with lib/pdf.ts. Orders are charged tax-inclusive, so each line's tax
+ * is the share of its total due at INVOICE_TAX_RATE; the rate is fixed on
+ * the invoice when it is first issued, so a re-download never changes.
+ * A promotion discount is shown as its own line, so the total is what was
+ * actually charged.
+ */
+
+import { config } from './config'
+import { requireSupabaseAdmin } from './supabase'
+import { formatMoney, fromMinorUnits, toMinorUnits } from './money'
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, type PdfColor } from './pdf'
+
+// Invoices are only issued once money has been taken
+export const INVOICEABLE_ORDER_STATUSES = ['paid', 'fulfilled', 'completed', 'partially_refunded', 'refunded']
+
+const getClient = () => requireSupabaseAdmin('issue invoices')
+
+// Types
+export interface Invoice {
+  id: string
+  orderId: string
+  number: string
+  // Percentage, e.g. 20 for 20%
+  taxRate: number
+  issuedAt: string
+}
+
+export interface InvoiceLine {
+  description: string
+  quantity: number
+  // In major units of the order's currency; unitPrice and total include tax
+  unitPrice: number
+  net: number
+  tax: number
+  total: number
+}
+
+export interface InvoiceTotals {
+  // Tax-inclusive sum of the lines, before any discount
+  subtotal: number
+  discount: number
+  // Of the amount charged
+  net: number
+  tax: number
+  total: number
+}
+
+// Percentage included in prices, from INVOICE_TAX_RATE (0 when unset or invalid)
+export const getInvoiceTaxRate = (): number => {
+  const rate = parseFloat(process.env.INVOICE_TAX_RATE || '0')
+  return Number.isFinite(rate) && rate >= 0 && rate < 1000 ? rate : 0
+}
+
+const toInvoice = (row: any): Invoice => ({
+  id: row.id,
+  orderId: row.order_id,
+  number: row.number,
+  taxRate: Number(row.tax_rate),
+  issuedAt: row.issued_at
+})
+
+// The order's invoice, issued with the next number the first time it is asked for
+export const issueInvoice = async (orderId: string): Promise<Invoice> => {
+  const { data, error } = await getClient().rpc('issue_invoice', {
+    p_order_id: orderId,
+    p_tax_rate: getInvoiceTaxRate()
+  })
+
+  if (error) throw error
+  return toInvoice(data)
+}
+
+// Split each tax-inclusive line total into net and tax. A discount (the lines'
+// total less `amountPaid`) takes its share of tax off too, as a negative line
+// would. Works in minor units so everything adds up to the totals exactly.
+export const getInvoiceLines = (
+  orderItems: any[],
+  taxRate: number,
+  currency: string,
+  amountPaid?: number | null
+): { lines: InvoiceLine[]; totals: InvoiceTotals } => {
+  const taxOf = (amount: number) => Math.round((amount * taxRate) / (100 + taxRate))
+  let subtotal = 0
+  let lineTax = 0
+
+  const lines = orderItems.map((item) => {
+    const total = toMinorUnits(Number(item.line_total), currency)
+    const tax = taxOf(total)
+
+    subtotal += total
+    lineTax += tax
+
+    return {
+      description: item.product_name,
+      quantity: item.quantity,
+      unitPrice: Number(item.unit_price),
+      net: fromMinorUnits(total - tax, currency),
+      tax: fromMinorUnits(tax, currency),
+      total: fromMinorUnits(total, currency)
+    }
+  })
+
+  // Orders paid before the charge was recorded were charged their full total
+  const total = amountPaid == null
+    ? subtotal
+    : Math.min(toMinorUnits(Number(amountPaid), currency), subtotal)
+  const discount = subtotal - total
+  const tax = lineTax - taxOf(discount)
+
+  return {
+    lines,
+    totals: {
+      subtotal: fromMinorUnits(subtotal, currency),
+      discount: fromMinorUnits(discount, currency),
+      net: fromMinorUnits(total - tax, currency),
+      tax: fromMinorUnits(tax, currency),
+      total: fromMinorUnits(total, currency)
+    }
+  }
+}
+
+// Layout
+const MARGIN = 50
+const RIGHT = PAGE_WIDTH - MARGIN
+const GRAY: PdfColor = [0.4, 0.4, 0.4]
+const RULE: PdfColor = [0.8, 0.8, 0.8]
+const HEADER_FILL: PdfColor = [0.95, 0.95, 0.95]
+const ROW_HEIGHT = 18
+
+// Right edges of the numeric columns; the description fills the space before them
+const COLUMNS = {
+  quantity: 270,
+  unitPrice: 345,
+  net: 420,
+  tax: 480,
+  total: RIGHT
+}
+
+// Keep room at the bottom of each page for the footer
+const CONTENT_BOTTOM = MARGIN + 40
+
+const formatDate = (value: string) => new Date(value).toISOString().slice(0, 10)
+
+const formatStatus = (status: string) => {
+  const label = status.replace(/_/g, ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+const formatRate = (rate: number) => `${Number(rate.toFixed(2))}%`
+
+// Render the invoice for an order loaded with ORDER_SELECT (lines and buyer embedded)
+export const renderInvoicePdf = (invoice: Invoice, order: any): ArrayBuffer => {
+  const currency = order.currency
+  const money = (amount: number) => formatMoney(amount, currency)
+  const { lines, totals } = getInvoiceLines(
+    order.order_items || [],
+    invoice.taxRate,
+    currency,
+    order.amount_paid
+  )
+
+  const pdf = new PdfDocument()
+  let y = PAGE_HEIGHT - MARGIN - 20
+
+  // Branding and invoice details
+  pdf.text(config.app.name, MARGIN, y, { font: 'bold', size: 20 })
+  pdf.text('INVOICE', RIGHT, y, { font: 'bold', size: 20, align: 'right' })
+  y -= 22
+
+  const contact = [config.app.url, config.app.supportEmail]
+  const details = [
+    `Invoice number: ${invoice.number}`,
+    `Issued: ${formatDate(invoice.issuedAt)}`,
+    `Order: ${order.id}`,
+    `Order date: ${formatDate(order.created_at)}`,
+    `Status: ${formatStatus(order.status)}`
+  ]
+  details.forEach((detail, index) => {
+    if (contact[index]) pdf.text(contact[index], MARGIN, y, { size: 9, color: GRAY })
+    pdf.text(detail, RIGHT, y, { size: 9, align: 'right' })
+    y -= 13
+  })
+
+  // Buyer
+  y -= 20
+  pdf.text('Bill to', MARGIN, y, { font: 'bold', size: 10 })
+  y -= 14
+  if (order.users?.name) {
+    pdf.text(order.users.name, MARGIN, y)
+    y -= 13
+  }
+  pdf.text(order.users?.email || order.user_id || 'Guest customer', MARGIN, y, { color: order.users?.name ? GRAY : undefined })
+  y -= 30
+
+  // Line items, continued on new pages when they don't fit
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y - 6, RIGHT - MARGIN, ROW_HEIGHT, HEADER_FILL)
+    pdf.text('Description', MARGIN + 6, y, { font: 'bold', size: 9 })
+    pdf.text('Qty', COLUMNS.quantity, y, { font: 'bold', size: 9, align: 'right' })
+    pdf.text('Unit price', COLUMNS.unitPrice, y, { font: 'bold', size: 9, align: 'right' })
+    pdf.text('Net', COLUMNS.net, y, { font: 'bold', size: 9, align: 'right' })
+    pdf.text(`Tax ${formatRate(invoice.taxRate)}`, COLUMNS.tax, y, { font: 'bold', size: 9, align: 'right' })
+    pdf.text('Amount', COLUMNS.total, y, { font: 'bold', size: 9, align: 'right' })
+    y -= ROW_HEIGHT + 4
+  }
+
+  drawTableHeader()
+
+  lines.forEach((line) => {
+    if (y < CONTENT_BOTTOM) {
+      pdf.addPage()
+      y = PAGE_HEIGHT - MARGIN - 20
+      drawTableHeader()
+    }
+
+    const description = pdf.truncate(line.description, COLUMNS.quantity - MARGIN - 40, 'regular', 9)
+    pdf.text(description, MARGIN + 6, y, { size: 9 })
+    pdf.text(String(line.quantity), COLUMNS.quantity, y, { size: 9, align: 'right' })
+    pdf.text(money(line.unitPrice), COLUMNS.unitPrice, y, { size: 9, align: 'right' })
+    pdf.text(money(line.net), COLUMNS.net, y, { size: 9, align: 'right' })
+    pdf.text(money(line.tax), COLUMNS.tax, y, { size: 9, align: 'right' })
+    pdf.text(money(line.total), COLUMNS.total, y, { size: 9, align: 'right' })
+    pdf.line(MARGIN, y - 6, RIGHT, y - 6, { color: RULE })
+    y -= ROW_HEIGHT
+  })
+
+  // Totals
+  const totalRows = totals.discount > 0 ? 5 : 3
+  if (y - totalRows * ROW_HEIGHT < CONTENT_BOTTOM) {
+    pdf.addPage()
+    y = PAGE_HEIGHT - MARGIN - 20
+  }
+
+  y -= 8
+  if (totals.discount > 0) {
+    pdf.text('Items', COLUMNS.tax, y, { size: 9, align: 'right' })
+    pdf.text(money(totals.subtotal), COLUMNS.total, y, { size: 9, align: 'right' })
+    y -= ROW_HEIGHT - 4
+    pdf.text('Discount', COLUMNS.tax, y, { size: 9, align: 'right' })
+    pdf.text(`-${money(totals.discount)}`, COLUMNS.total, y, { size: 9, align: 'right' })
+    y -= ROW_HEIGHT - 4
+  }
+  pdf.text('Subtotal (excl. tax)', COLUMNS.tax, y, { size: 9, align: 'right' })
+  pdf.text(money(totals.net), COLUMNS.total, y, { size: 9, align: 'right' })
+  y -= ROW_HEIGHT - 4
+  pdf.text(`Tax (${formatRate(invoice.taxRate)})`, COLUMNS.tax, y, { size: 9, align: 'right' })
+  pdf.text(money(totals.tax), COLUMNS.total, y, { size: 9, align: 'right' })
+  y -= ROW_HEIGHT
+  pdf.line(COLUMNS.unitPrice, y + 12, RIGHT, y + 12)
+  pdf.text('Total', COLUMNS.tax, y, { font: 'bold', size: 11, align: 'right' })
+  pdf.text(money(totals.total), COLUMNS.total, y, { font: 'bold', size: 11, align: 'right' })
+
+  // Footer on the last page
+  pdf.text(
+    `Thank you for your order. Questions? Contact ${config.app.supportEmail}`,
+    MARGIN,
+    MARGIN,
+    { size: 8, color: GRAY }
+  )
+
+  return pdf.toArrayBuffer({
+    title: `Invoice ${invoice.number}`,
+    author: config.app.name
+  })
+}
@@ -0,0 +1,55 @@
+/**
+ * Second-Factor Attempt Limits
+ *
+ * Caps how many TOTP or recovery codes can be tried against a factor during
+ * sign-in. Attempts are recorded before the code is checked, so concurrent
+ * requests can't slip past the limit. They are kept in the mfa_attempts
+ * table with Supabase and in memory with the mock provider.
+ */
+
+import { isProviderEnabled } from './config'
+import { requireSupabaseAdmin } from './supabase'
+
+export const MFA_MAX_ATTEMPTS = 5
+export const MFA_ATTEMPT_WINDOW = 15 * 60 // seconds
+
+// Mock provider attempts, by factor id
+const memoryAttempts = new Map<string, number[]>()
+
+const getAdminClient = () => requireSupabaseAdmin('limit MFA attempts')
+
+// Record an attempt; false when the factor has used up its attempts for now
+export const registerMfaAttempt = async (factorId: string): Promise<boolean> => {
+  const windowStart = Date.now() - MFA_ATTEMPT_WINDOW * 1000
+
+  if (!isProviderEnabled('supabase')) {
+    const attempts = (memoryAttempts.get(factorId) || []).filter((time) => time > windowStart)
+    attempts.push(Date.now())
+    memoryAttempts.set(factorId, attempts)
+    return attempts.length <= MFA_MAX_ATTEMPTS
+  }
+
+  const client = getAdminClient()
+  const { error } = await client.from('mfa_attempts').insert({ factor_id: factorId })
+  if (error) throw error
+
+  const { count, error: countError } = await client
+    .from('mfa_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('factor_id', factorId)
+    .gt('attempted_at', new Date(windowStart).toISOString())
+
+  if (countError) throw countError
+  return (count || 0) <= MFA_MAX_ATTEMPTS
+}
+
+// Start counting again once the user has signed in
+export const clearMfaAttempts = async (factorId: string) => {
+  if (!isProviderEnabled('supabase')) {
+    memoryAttempts.delete(factorId)
+    return
+  }
+
+  const { error } = await getAdminClient().from('mfa_attempts').delete().eq('factor_id', factorId)
+  if (error) throw error
+}
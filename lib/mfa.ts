@@ -0,0 +1,204 @@
+/**
+ * Multi-Factor Authentication Helpers
+ *
+ * TOTP (RFC 6238) generation and verification plus recovery codes.
+ * Supabase verifies TOTP codes itself; these helpers back the mock
+ * provider and recovery codes, which Supabase does not provide.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+// TOTP parameters understood by every authenticator app
+const TOTP_DIGITS = 6
+const TOTP_PERIOD = 30 // seconds
+
+export const RECOVERY_CODE_COUNT = 10
+const RECOVERY_CODE_BYTES = 10
+
+// Slows down guessing if the hashes ever leak
+const RECOVERY_HASH_ITERATIONS = 100000
+
+// Types
+export interface MfaEnrollment {
+  factorId: string
+  // otpauth:// URI to encode as a QR code or enter manually
+  otpauthUri: string
+  secret: string
+  // Ready-made QR code image (data URL), when the provider renders one
+  qrCode?: string
+}
+
+const toHex = (bytes: Uint8Array) => {
+  return Array.from(bytes, (byte) => `0${byte.toString(16)}`.slice(-2)).join('')
+}
+
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length)
+  crypto.getRandomValues(bytes)
+  return bytes
+}
+
+const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i]
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+const base32Decode = (input: string) => {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  const bytes = new Uint8Array(Math.floor((clean.length * 5) / 8))
+  let bits = 0
+  let value = 0
+  let index = 0
+  for (let i = 0; i < clean.length; i++) {
+    const char = BASE32_ALPHABET.indexOf(clean[i])
+    if (char === -1) throw new Error('Invalid base32 secret')
+    value = (value << 5) | char
+    bits += 5
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 255
+      bits -= 8
+    }
+  }
+  return bytes
+}
+
+export const generateTotpSecret = (): string => {
+  return base32Encode(randomBytes(20))
+}
+
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD)
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+export const generateTotp = async (secret: string, timestamp: number = Date.now()): Promise<string> => {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD)
+
+  // 8-byte big-endian counter
+  const message = new Uint8Array(8)
+  let remaining = counter
+  for (let i = 7; i >= 0; i--) {
+    message[i] = remaining & 255
+    remaining = Math.floor(remaining / 256)
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  )
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message))
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 15
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return `${'0'.repeat(TOTP_DIGITS)}${binary % 10 ** TOTP_DIGITS}`.slice(-TOTP_DIGITS)
+}
+
+// Accept the current code and one step either side to allow for clock drift
+export const verifyTotp = async (secret: string, code: string, timestamp: number = Date.now()): Promise<boolean> => {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return false
+
+  for (const step of [-1, 0, 1]) {
+    if (await generateTotp(secret, timestamp + step * TOTP_PERIOD * 1000) === normalized) {
+      return true
+    }
+  }
+  return false
+}
+
+// Recovery codes look like "a1b2c-d3e4f-a5b6c-d7e8f" (80 random bits); only
+// salted PBKDF2 hashes of them are stored
+export const generateRecoveryCodes = (count: number = RECOVERY_CODE_COUNT): string[] => {
+  return Array.from({ length: count }, () => {
+    const hex = toHex(randomBytes(RECOVERY_CODE_BYTES))
+    return hex.match(/.{5}/g)!.join('-')
+  })
+}
+
+// Case, spaces and dashes don't matter when a code is typed back in
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase()
+
+const deriveRecoveryHash = async (code: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(normalizeRecoveryCode(code)),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  )
+  return new Uint8Array(bits)
+}
+
+const fromHex = (hex: string) => {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map((byte) => parseInt(byte, 16)))
+}
+
+// Compare without returning early, so timing doesn't reveal how much matched
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+// Stored as "pbkdf2-sha256$<iterations>$<salt>$<hash>"
+export const hashRecoveryCode = async (code: string): Promise<string> => {
+  const salt = randomBytes(16)
+  const hash = await deriveRecoveryHash(code, salt, RECOVERY_HASH_ITERATIONS)
+  return ['pbkdf2-sha256', RECOVERY_HASH_ITERATIONS, toHex(salt), toHex(hash)].join('$')
+}
+
+export const verifyRecoveryCode = async (code: string, storedHash: string): Promise<boolean> => {
+  const [scheme, iterations, salt, hash] = storedHash.split('$')
+  if (scheme !== 'pbkdf2-sha256' || !hash) return false
+
+  const derived = await deriveRecoveryHash(code, fromHex(salt), parseInt(iterations, 10))
+  return constantTimeEqual(toHex(derived), hash)
+}
+
+// The first stored hash the code matches, if any
+export const findRecoveryCode = async <T extends { code_hash: string }>(
+  code: string,
+  storedCodes: T[]
+): Promise<T | null> => {
+  for (const stored of storedCodes) {
+    if (await verifyRecoveryCode(code, stored.code_hash)) return stored
+  }
+  return null
+}
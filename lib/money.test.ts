@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatMoney, fromMinorUnits, isValidCurrency, normalizeCurrency, toMinorUnits } from './money'
+
+describe('toMinorUnits', () => {
+  it('uses the decimals of the currency', () => {
+    expect(toMinorUnits(12.5, 'usd')).toBe(1250)
+    expect(toMinorUnits(1000, 'JPY')).toBe(1000)
+    expect(toMinorUnits(1.234, 'kwd')).toBe(1230)
+  })
+
+  it('rounds away floating point error', () => {
+    expect(toMinorUnits(0.1 + 0.2, 'usd')).toBe(30)
+    expect(toMinorUnits(19.99 * 3, 'eur')).toBe(5997)
+  })
+})
+
+describe('fromMinorUnits', () => {
+  it('converts back to major units', () => {
+    expect(fromMinorUnits(1250, 'usd')).toBe(12.5)
+    expect(fromMinorUnits(1000, 'jpy')).toBe(1000)
+    expect(fromMinorUnits(1230, 'kwd')).toBe(1.23)
+  })
+})
+
+describe('currency codes', () => {
+  it('normalizes to lowercase and defaults to USD', () => {
+    expect(normalizeCurrency(' EUR ')).toBe('eur')
+    expect(normalizeCurrency(null)).toBe('usd')
+  })
+
+  it('accepts three-letter codes only', () => {
+    expect(isValidCurrency('gbp')).toBe(true)
+    expect(isValidCurrency('pounds')).toBe(false)
+    expect(isValidCurrency(826)).toBe(false)
+  })
+})
+
+describe('formatMoney', () => {
+  it('formats for the locale with the currency decimals', () => {
+    expect(formatMoney(1234.5, 'usd', 'en-US')).toBe('$1,234.50')
+    expect(formatMoney(1234.5, 'eur', 'de-DE')).toBe('1.234,50 €')
+    expect(formatMoney(1000, 'jpy', 'en-US')).toBe('¥1,000')
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Money Helpers
+ *
+ * Amounts are stored in major units (e.g. 12.5 USD) and sent to payment
+ * providers in minor units (e.g. 1250 cents). Not every currency has two
+ * decimals, so conversion and formatting always go through the currency.
+ */
+
+export const DEFAULT_CURRENCY = 'usd'
+
+// Currencies without a minor unit (Stripe's zero-decimal list)
+const ZERO_DECIMAL_CURRENCIES = [
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga',
+  'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf'
+]
+
+// Currencies with three decimals
+const THREE_DECIMAL_CURRENCIES = ['bhd', 'jod', 'kwd', 'omr', 'tnd']
+
+// ISO 4217 codes, stored lowercase as Stripe expects
+export const normalizeCurrency = (currency: string | null | undefined): string => {
+  return (currency || DEFAULT_CURRENCY).trim().toLowerCase()
+}
+
+export const isValidCurrency = (currency: unknown): currency is string => {
+  return typeof currency === 'string' && /^[a-zA-Z]{3}$/.test(currency)
+}
+
+// Number of decimals in the currency's minor unit
+export const getCurrencyExponent = (currency: string): number => {
+  const code = normalizeCurrency(currency)
+  if (ZERO_DECIMAL_CURRENCIES.indexOf(code) !== -1) return 0
+  if (THREE_DECIMAL_CURRENCIES.indexOf(code) !== -1) return 3
+  return 2
+}
+
+export const toMinorUnits = (amount: number, currency: string): number => {
+  const exponent = getCurrencyExponent(currency)
+  const minor = Math.round(amount * Math.pow(10, exponent))
+
+  // Stripe only charges three-decimal currencies in multiples of 10
+  return exponent === 3 ? Math.round(minor / 10) * 10 : minor
+}
+
+export const fromMinorUnits = (minor: number, currency: string): number => {
+  return minor / Math.pow(10, getCurrencyExponent(currency))
+}
+
+// Locale-aware display, e.g. formatMoney(1234.5, 'eur', 'de-DE') -> "1.234,50 €"
+export const formatMoney = (amount: number, currency: string, locale?: string): string => {
+  const exponent = getCurrencyExponent(currency)
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: normalizeCurrency(currency).toUpperCase(),
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent
+  }).format(amount)
+}
+
+export const formatMinorUnits = (minor: number, currency: string, locale?: string): string => {
+  return formatMoney(fromMinorUnits(minor, currency), currency, locale)
+}
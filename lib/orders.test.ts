@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabaseFake as fake } from '../test/supabase'
+
+vi.mock('./supabase', async () => {
+  const { supabaseFake } = await import('../test/supabase')
+  return { supabase: supabaseFake.client, requireSupabaseAdmin: () => supabaseFake.client }
+})
+
+import { canTransition, countPendingGuestOrders, createOrder, getOrder, OrderTransitionError, transitionOrder } from './orders'
+import { PricingError } from './products'
+
+const product = (overrides: Record<string, any> = {}) => ({
+  id: 'prod_1',
+  name: 'Widget',
+  description: null,
+  image_url: null,
+  price: 10,
+  currency: 'usd',
+  active: true,
+  track_inventory: false,
+  stock_quantity: 0,
+  ...overrides
+})
+
+beforeEach(() => {
+  fake.reset()
+})
+
+describe('getOrder', () => {
+  it('returns the order with its line items', async () => {
+    fake.queue('orders', { data: { id: 'order_1', user_id: 'user_1', order_items: [{ id: 'line_1' }] } })
+
+    await expect(getOrder('order_1')).resolves.toMatchObject({ order_items: [{ id: 'line_1' }] })
+    expect(fake.callsTo('orders', 'eq')[0].args).toEqual(['id', 'order_1'])
+  })
+
+  it('treats a malformed id as a missing order', async () => {
+    fake.queue('orders', { error: { code: '22P02', message: 'invalid input syntax for type uuid' } })
+
+    await expect(getOrder('not-a-uuid')).resolves.toBeNull()
+  })
+})
+
+describe('canTransition', () => {
+  it('follows the order lifecycle', () => {
+    expect(canTransition('pending', 'paid')).toBe(true)
+    expect(canTransition('pending', 'cancelled')).toBe(true)
+    expect(canTransition('paid', 'fulfilled')).toBe(true)
+    expect(canTransition('fulfilled', 'completed')).toBe(true)
+    expect(canTransition('completed', 'refunded')).toBe(true)
+    expect(canTransition('partially_refunded', 'refunded')).toBe(true)
+  })
+
+  it('rejects going backwards, cancelling paid orders and leaving final states', () => {
+    expect(canTransition('paid', 'pending')).toBe(false)
+    expect(canTransition('paid', 'cancelled')).toBe(false)
+    expect(canTransition('cancelled', 'paid')).toBe(false)
+    expect(canTransition('refunded', 'partially_refunded')).toBe(false)
+  })
+
+  it('rejects unknown statuses', () => {
+    expect(canTransition('pending', 'shipped')).toBe(false)
+    expect(canTransition('draft', 'paid')).toBe(false)
+  })
+})
+
+describe('transitionOrder', () => {
+  it('applies an allowed change with its history details', async () => {
+    fake.queue('orders', { data: { status: 'pending' } })
+    fake.client.rpc.mockResolvedValue({ data: true, error: null })
+
+    await expect(transitionOrder('order_1', 'paid', { actorId: 'user_1', reason: 'Paid' }))
+      .resolves.toEqual({ from: 'pending', to: 'paid' })
+
+    expect(fake.client.rpc).toHaveBeenCalledWith('transition_order_status', {
+      p_order_id: 'order_1',
+      p_from: 'pending',
+      p_to: 'paid',
+      p_actor_id: 'user_1',
+      p_reason: 'Paid'
+    })
+  })
+
+  it('refuses a change the lifecycle does not allow', async () => {
+    fake.queue('orders', { data: { status: 'cancelled' } })
+
+    const error = await transitionOrder('order_1', 'paid').catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(OrderTransitionError)
+    expect(error.code).toBe('invalid_transition')
+    expect(fake.client.rpc).not.toHaveBeenCalled()
+  })
+
+  it('reports a missing order', async () => {
+    fake.queue('orders', { data: null })
+
+    await expect(transitionOrder('order_1', 'paid')).rejects.toMatchObject({ code: 'order_not_found' })
+  })
+
+  it('reports a conflict when the status changed underneath it', async () => {
+    fake.queue('orders', { data: { status: 'pending' } })
+    fake.client.rpc.mockResolvedValue({ data: false, error: null })
+
+    await expect(transitionOrder('order_1', 'cancelled')).rejects.toMatchObject({ code: 'status_conflict' })
+  })
+})
+
+describe('countPendingGuestOrders', () => {
+  it('counts the pending orders under the guest key', async () => {
+    fake.queue('orders', { count: 2 })
+
+    await expect(countPendingGuestOrders('ip:203.0.113.7')).resolves.toBe(2)
+    expect(fake.callsTo('orders', 'eq').map((call) => call.args)).toEqual([
+      ['guest_key', 'ip:203.0.113.7'],
+      ['status', 'pending']
+    ])
+  })
+})
+
+describe('createOrder', () => {
+  it('creates the order through create_order and returns it with its lines', async () => {
+    fake.queue('products', { data: [product()] })
+    fake.queue('orders', { data: { id: 'order_1', order_items: [] } })
+    fake.client.rpc.mockResolvedValue({ data: 'order_1', error: null })
+
+    await expect(createOrder('user_1', [{ productId: 'prod_1', quantity: 2 }]))
+      .resolves.toMatchObject({ id: 'order_1' })
+
+    expect(fake.client.rpc).toHaveBeenCalledWith('create_order', {
+      p_user_id: 'user_1',
+      p_items: [{ product_id: 'prod_1', quantity: 2 }]
+    })
+  })
+
+  it('tags a guest order with the guest key', async () => {
+    fake.queue('products', { data: [product()] })
+    fake.queue('orders', {}, { data: { id: 'order_1', user_id: null, order_items: [] } })
+    fake.client.rpc.mockResolvedValue({ data: 'order_1', error: null })
+
+    await createOrder(null, [{ productId: 'prod_1', quantity: 1 }], 'cart:token_1')
+
+    expect(fake.callsTo('orders', 'update')[0].args).toEqual([{ guest_key: 'cart:token_1' }])
+  })
+
+  it('turns a failed stock reservation into a PricingError', async () => {
+    fake.queue('products', { data: [product({ track_inventory: true, stock_quantity: 5 })] })
+    fake.client.rpc.mockResolvedValue({
+      data: null,
+      error: { message: 'Not enough stock', hint: 'insufficient_stock', details: 'prod_1' }
+    })
+
+    const error = await createOrder(null, [{ productId: 'prod_1', quantity: 2 }]).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(PricingError)
+    expect(error).toMatchObject({ code: 'insufficient_stock', productId: 'prod_1' })
+  })
+
+  it('rejects products in different currencies before reserving anything', async () => {
+    fake.queue('products', { data: [product(), product({ id: 'prod_2', currency: 'eur' })] })
+
+    await expect(createOrder('user_1', [
+      { productId: 'prod_1', quantity: 1 },
+      { productId: 'prod_2', quantity: 1 }
+    ])).rejects.toMatchObject({ code: 'mixed_currency' })
+
+    expect(fake.client.rpc).not.toHaveBeenCalled()
+  })
+})
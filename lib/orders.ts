@@ -0,0 +1,210 @@
+/**
+ * Orders
+ *
+ * Creates multi-item orders, holds the select shared by the order routes (so
+ * every order response embeds its line items) and owns the order lifecycle:
+ * which status changes are allowed and the history each one leaves behind.
+ */
+
+import { requireSupabaseAdmin } from './supabase'
+import { priceItems, PricingError, type PurchaseRequestItem } from './products'
+import type { CheckoutItem } from './payments'
+
+export const ORDER_STATUSES = [
+  'pending',
+  'paid',
+  'fulfilled',
+  'completed',
+  'cancelled',
+  'refunded',
+  'partially_refunded'
+] as const
+export type OrderStatus = typeof ORDER_STATUSES[number]
+
+// pending -> paid -> fulfilled -> completed, with cancelled and refunded branches.
+// Only unpaid orders can be cancelled; paid ones are refunded instead.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['fulfilled', 'refunded', 'partially_refunded'],
+  fulfilled: ['completed', 'refunded', 'partially_refunded'],
+  completed: ['refunded', 'partially_refunded'],
+  partially_refunded: ['refunded'],
+  cancelled: [],
+  refunded: []
+}
+
+// Refund statuses are set from recorded refunds (lib/refunds.ts), never by hand
+export const MANUAL_ORDER_STATUSES: OrderStatus[] = ['paid', 'fulfilled', 'completed', 'cancelled']
+
+export const isOrderStatus = (value: unknown): value is OrderStatus => {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value)
+}
+
+export const canTransition = (from: string, to: string): boolean => {
+  return isOrderStatus(from) && isOrderStatus(to) && ORDER_TRANSITIONS[from].includes(to)
+}
+
+export type OrderTransitionErrorCode = 'order_not_found' | 'invalid_transition' | 'status_conflict'
+
+export class OrderTransitionError extends Error {
+  code: OrderTransitionErrorCode
+  from?: string
+  to?: string
+
+  constructor(code: OrderTransitionErrorCode, message: string, from?: string, to?: string) {
+    super(message)
+    this.name = 'OrderTransitionError'
+    this.code = code
+    this.from = from
+    this.to = to
+    Object.setPrototypeOf(this, OrderTransitionError.prototype)
+  }
+}
+
+export interface TransitionOptions {
+  // User who made the change; omitted for payment webhooks
+  actorId?: string | null
+  reason?: string | null
+}
+
+const getClient = () => requireSupabaseAdmin('manage orders')
+
+// The order, its owner and its line items (with the product, if it still exists)
+export const ORDER_SELECT = `
+  *,
+  users:user_id (id, name, email),
+  order_items (
+    id, product_id, product_name, quantity, unit_price, currency, line_total, stock_reserved,
+    products:product_id (id, name, image_url)
+  )
+`
+
+export const getOrder = async (orderId: string) => {
+  const { data, error } = await getClient()
+    .from('orders')
+    .select(ORDER_SELECT)
+    .eq('id', orderId)
+    .maybeSingle()
+
+  // A malformed id matches no order
+  if (error?.code === '22P02') return null
+  if (error) throw error
+  return data
+}
+
+// Checkout lines for an order, at the prices it was created with
+export const toOrderCheckoutItems = (order: { order_items: any[] }): CheckoutItem[] => {
+  return order.order_items.map((line) => ({
+    id: line.product_id || line.id,
+    name: line.product_name,
+    price: Number(line.unit_price),
+    currency: line.currency,
+    quantity: line.quantity
+  }))
+}
+
+// Create a pending order for the user, or for a guest checkout when userId is
+// null (with the guest's key, see countPendingGuestOrders). The create_order
+// function writes the order and its lines in one transaction, prices them from
+// the products table (so the total never comes from the client) and reserves
+// tracked stock.
+export const createOrder = async (userId: string | null, items: PurchaseRequestItem[], guestKey?: string) => {
+  // Price up front for specific errors; the database repeats the checks atomically
+  const pricedItems = await priceItems(items)
+  if (new Set(pricedItems.map((item) => item.currency)).size > 1) {
+    throw new PricingError('mixed_currency', 'All items must use the same currency')
+  }
+
+  const client = getClient()
+  const { data: orderId, error } = await client.rpc('create_order', {
+    p_user_id: userId,
+    p_items: items.map((item) => ({ product_id: item.productId, quantity: item.quantity }))
+  })
+
+  if (error) {
+    // Stock ran out between the check above and the reservation
+    if (error.hint === 'insufficient_stock') {
+      throw new PricingError('insufficient_stock', 'Not enough stock', error.details)
+    }
+    throw error
+  }
+
+  if (guestKey) {
+    const { error: keyError } = await client.from('orders').update({ guest_key: guestKey }).eq('id', orderId)
+    if (keyError) throw keyError
+  }
+
+  const { data: order, error: fetchError } = await client
+    .from('orders')
+    .select(ORDER_SELECT)
+    .eq('id', orderId)
+    .single()
+
+  if (fetchError) throw fetchError
+  return order
+}
+
+// Unpaid orders one guest may hold at once; each reserves stock until its checkout expires
+export const MAX_PENDING_GUEST_ORDERS = 3
+
+// Pending orders placed under a guest key (the guest's cart token, or their address)
+export const countPendingGuestOrders = async (guestKey: string): Promise<number> => {
+  const { count, error } = await getClient()
+    .from('orders')
+    .select('id', { count: 'exact', head: true })
+    .eq('guest_key', guestKey)
+    .eq('status', 'pending')
+
+  if (error) throw error
+  return count || 0
+}
+
+// Move an order to a new status and record it in order_status_history.
+// Cancelling releases the order's reserved stock, in the same transaction.
+export const transitionOrder = async (
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions = {},
+  client = getClient()
+): Promise<{ from: OrderStatus; to: OrderStatus }> => {
+  const { data: order, error } = await client
+    .from('orders')
+    .select('status')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!order) throw new OrderTransitionError('order_not_found', 'Order not found')
+
+  const from = order.status
+  if (!canTransition(from, to)) {
+    throw new OrderTransitionError('invalid_transition', `Cannot change an order from ${from} to ${to}`, from, to)
+  }
+
+  // Applied only if the status is still `from`, together with its history row
+  const { data: applied, error: transitionError } = await client.rpc('transition_order_status', {
+    p_order_id: orderId,
+    p_from: from,
+    p_to: to,
+    p_actor_id: options.actorId ?? null,
+    p_reason: options.reason ?? null
+  })
+
+  if (transitionError) throw transitionError
+  if (!applied) {
+    throw new OrderTransitionError('status_conflict', 'The order changed while it was being updated; try again', from, to)
+  }
+
+  return { from, to }
+}
+
+export const getOrderHistory = async (orderId: string) => {
+  const { data, error } = await getClient()
+    .from('order_status_history')
+    .select('id, from_status, to_status, actor_id, reason, created_at')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
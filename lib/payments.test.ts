@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { MockPaymentProvider, type CheckoutItem } from './payments'
+
+const items: CheckoutItem[] = [{ id: 'item_1', name: 'Widget', price: 20, currency: 'usd', quantity: 1 }]
+
+const checkout = (payments: MockPaymentProvider, promotionCode: string) => {
+  return payments.createCheckoutSession(items, 'http://localhost/success', 'http://localhost/cancel', { promotionCode })
+}
+
+let payments: MockPaymentProvider
+
+beforeEach(() => {
+  // Webhook delivery is covered by the webhooks tests
+  vi.spyOn(MockPaymentProvider.prototype as any, 'emit').mockResolvedValue(undefined)
+  payments = new MockPaymentProvider(undefined)
+})
+
+describe('MockPaymentProvider coupons', () => {
+  it('applies the discount to the checkout', async () => {
+    payments.addCoupon({ code: 'SAVE5', amountOff: 5, currency: 'usd' })
+
+    await expect(checkout(payments, 'save5')).resolves.toMatchObject({
+      status: 'complete',
+      amountSubtotal: 20,
+      amountTotal: 15
+    })
+  })
+
+  it('stops accepting a code once it reaches its redemption limit', async () => {
+    payments.addCoupon({ code: 'ONCE', percentOff: 10, maxRedemptions: 1 })
+
+    await expect(payments.validateCoupon('ONCE', items)).resolves.toMatchObject({ valid: true })
+    await checkout(payments, 'ONCE')
+
+    await expect(payments.validateCoupon('ONCE', items)).resolves.toMatchObject({ valid: false })
+    await expect(checkout(payments, 'ONCE')).rejects.toThrow('Invalid promotion code')
+  })
+
+  it('lets only one of two concurrent checkouts use the last redemption', async () => {
+    payments.addCoupon({ code: 'ONCE', percentOff: 10, maxRedemptions: 1 })
+
+    const results = await Promise.allSettled([checkout(payments, 'ONCE'), checkout(payments, 'ONCE')])
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    await expect(payments.validateCoupon('ONCE', items)).resolves.toMatchObject({ valid: false })
+  })
+
+  it('does not count a checkout whose payment failed', async () => {
+    payments.addCoupon({ code: 'ONCE', percentOff: 10, maxRedemptions: 1 })
+    const customer = await payments.createCustomer('user@example.com', 'User')
+    await payments.attachPaymentMethod(customer.id, 'pm_card_chargeDeclined')
+
+    const session = await payments.createCheckoutSession(items, 'http://localhost/success', 'http://localhost/cancel', {
+      promotionCode: 'ONCE',
+      customerId: customer.id
+    })
+
+    expect(session.status).toBe('open')
+    await expect(payments.validateCoupon('ONCE', items)).resolves.toMatchObject({ valid: true })
+  })
+})
+
+describe('MockPaymentProvider customers', () => {
+  it('returns the first customer for a repeated idempotency key', async () => {
+    const first = await payments.createCustomer('user@example.com', 'User', 'customer-user_1')
+
+    await expect(payments.createCustomer('user@example.com', 'User', 'customer-user_1')).resolves.toEqual(first)
+    await expect(payments.createCustomer('user@example.com', 'User')).resolves.not.toMatchObject({ id: first.id })
+  })
+})
+
+describe('MockPaymentProvider checkout', () => {
+  it('tags the payment intents it creates, so the webhook settles them by session', async () => {
+    await payments.createCheckoutSession(items, 'http://localhost/success', 'http://localhost/cancel', {
+      metadata: { order_id: 'order_1' }
+    })
+
+    expect((MockPaymentProvider.prototype as any).emit).toHaveBeenCalledWith(
+      'payment_intent.succeeded',
+      expect.objectContaining({ amount_received: 2000, metadata: { order_id: 'order_1', source: 'checkout' } })
+    )
+  })
+})
@@ -7,39 +7,192 @@
  * - No payments (disabled)
  */
 
+import React from 'react'
 import { config, isFeatureEnabled, isProviderEnabled } from './config'
+import { authFetch } from './auth'
+import { DEFAULT_CURRENCY, fromMinorUnits, normalizeCurrency, toMinorUnits } from './money'
 
 // Types
 export interface PaymentProvider {
-  createCheckoutSession: (items: CheckoutItem[], successUrl: string, cancelUrl: string) => Promise<CheckoutSession>
+  createCheckoutSession: (items: CheckoutItem[], successUrl: string, cancelUrl: string, options?: CheckoutOptions) => Promise<CheckoutSession>
   createSubscription: (priceId: string, customerId: string) => Promise<Subscription>
   cancelSubscription: (subscriptionId: string) => Promise<void>
   getCustomer: (customerId: string) => Promise<Customer | null>
-  createCustomer: (email: string, name?: string) => Promise<Customer>
+  // A repeated idempotency key returns the first customer instead of creating another
+  createCustomer: (email: string, name?: string, idempotencyKey?: string) => Promise<Customer>
   getPaymentMethods: (customerId: string) => Promise<PaymentMethod[]>
+  createBillingPortalSession: (customerId: string, returnUrl: string) => Promise<BillingPortalSession>
+  validateCoupon: (code: string, items: CheckoutItem[]) => Promise<CouponPreview>
+  // Refunds the whole remaining payment when amount (major units) is omitted
+  refund: (paymentIntentId: string, amount?: number) => Promise<Refund>
+  // Adds usage to a metered subscription item; the timestamp must fall in the current period
+  // A repeated idempotency key returns the first record instead of counting the usage again
+  recordUsage: (subscriptionItemId: string, quantity: number, timestamp: Date, idempotencyKey?: string) => Promise<UsageRecord>
+  getUpcomingInvoice: (subscriptionId: string) => Promise<InvoicePreview>
 }
 
 export interface CheckoutItem {
   id: string
-  name: string
+  // Stripe price id; when set, name and price come from the price itself.
+  // Subscription checkouts only accept items with a recurring price id.
+  priceId?: string
+  name?: string
   description?: string
-  price: number
+  // In major units of `currency`
+  price?: number
+  // ISO 4217 code; defaults to USD
+  currency?: string
   quantity: number
   image?: string
 }
 
+// payment: one-off purchase, subscription: recurring plan, setup: save a card for later
+export const CHECKOUT_MODES = ['payment', 'subscription', 'setup'] as const
+export type CheckoutMode = typeof CHECKOUT_MODES[number]
+
+export interface CheckoutOptions {
+  mode?: CheckoutMode
+  // Free trial length for subscription checkouts
+  trialDays?: number
+  // Payment customer to attach, so the purchase shows up on their account
+  customerId?: string
+  // Copied onto the payment or subscription, e.g. { user_id }
+  metadata?: Record<string, string>
+  // Let the customer type a code on the checkout page...
+  allowPromotionCodes?: boolean
+  // ...or apply one up front; the two can't be combined
+  promotionCode?: string
+}
+
 export interface CheckoutSession {
   id: string
   url: string
   status: 'open' | 'complete' | 'expired'
+  mode: CheckoutMode
+  // Totals in major units, when the provider reports them
+  amountSubtotal?: number
+  amountTotal?: number
+  currency?: string
+}
+
+// A discount is either a percentage or a fixed amount in one currency
+export interface Coupon {
+  code: string
+  percentOff?: number
+  amountOff?: number // major units of `currency`
+  currency?: string
+  // Smallest subtotal the code applies to, in major units
+  minimumAmount?: number
+  // Completed checkouts the code may be used for, when limited
+  maxRedemptions?: number
+  timesRedeemed?: number
+}
+
+export interface CouponPreview {
+  code: string
+  valid: boolean
+  // Why the code can't be used, when it is not valid
+  reason?: string
+  currency: string
+  subtotal: number
+  discount: number
+  total: number
+}
+
+// Discount math for a priced cart, done in minor units to avoid rounding drift
+export const previewDiscount = (items: CheckoutItem[], coupon: Coupon | null, code: string = coupon?.code || ''): CouponPreview => {
+  const currency = normalizeCurrency(items[0]?.currency)
+  const subtotalMinor = items.reduce(
+    (sum, item) => sum + toMinorUnits(item.price || 0, currency) * item.quantity,
+    0
+  )
+
+  const preview = (discountMinor: number, reason?: string): CouponPreview => ({
+    code,
+    valid: !reason,
+    reason,
+    currency,
+    subtotal: fromMinorUnits(subtotalMinor, currency),
+    discount: fromMinorUnits(discountMinor, currency),
+    total: fromMinorUnits(subtotalMinor - discountMinor, currency)
+  })
+
+  if (!coupon) return preview(0, 'This code is not valid')
+
+  if (coupon.minimumAmount !== undefined && subtotalMinor < toMinorUnits(coupon.minimumAmount, currency)) {
+    return preview(0, 'Your order does not meet the minimum amount for this code')
+  }
+
+  if (coupon.percentOff !== undefined) {
+    return preview(Math.min(Math.round(subtotalMinor * coupon.percentOff / 100), subtotalMinor))
+  }
+
+  if (coupon.amountOff !== undefined) {
+    if (normalizeCurrency(coupon.currency) !== currency) {
+      return preview(0, 'This code is not valid for this currency')
+    }
+    return preview(Math.min(toMinorUnits(coupon.amountOff, currency), subtotalMinor))
+  }
+
+  return preview(0, 'This code is not valid')
+}
+
+// Added to the metadata of payment intents created by Checkout. The webhook
+// settles their orders from the checkout.session events instead.
+export const CHECKOUT_PAYMENT_METADATA = { source: 'checkout' }
+
+// Mode rules shared by every provider, so the mock fails where Stripe would
+export const validateCheckout = (items: CheckoutItem[], options: CheckoutOptions = {}): string | null => {
+  const mode = options.mode || 'payment'
+
+  if (!CHECKOUT_MODES.includes(mode)) return `Unknown checkout mode: ${mode}`
+  if (mode === 'setup') {
+    return items.length > 0 ? 'Setup checkouts do not take items' : null
+  }
+  if (items.length === 0) return 'Items are required'
+
+  for (const item of items) {
+    if (!item.quantity || item.quantity < 1) return 'Item quantities must be at least 1'
+    if (mode === 'subscription' && !item.priceId) return 'Subscription items require a price ID'
+    if (!item.priceId && (!item.name || item.price === undefined)) {
+      return 'Items require either a price ID or a name and price'
+    }
+  }
+
+  // Stripe charges a whole checkout in a single currency
+  const currencies = new Set(items.filter((item) => !item.priceId).map((item) => normalizeCurrency(item.currency)))
+  if (currencies.size > 1) return 'All items must use the same currency'
+
+  if (options.promotionCode && options.allowPromotionCodes) {
+    return 'Use either allowPromotionCodes or a promotion code, not both'
+  }
+
+  if (options.trialDays !== undefined) {
+    if (mode !== 'subscription') return 'Trial days are only supported for subscriptions'
+    if (!Number.isInteger(options.trialDays) || options.trialDays < 1) return 'Trial days must be a positive whole number'
+  }
+
+  return null
+}
+
+// A 4xx from the provider means it refused the request and applied none of it,
+// so a retry may use a new idempotency key. Timeouts and 5xx may have applied.
+export const isRejectedRequest = (error: unknown): boolean => {
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode
+  return typeof statusCode === 'number' && statusCode >= 400 && statusCode < 500
 }
 
 export interface Subscription {
   id: string
-  status: 'active' | 'canceled' | 'incomplete' | 'past_due'
+  status: 'active' | 'trialing' | 'canceled' | 'incomplete' | 'past_due' | 'unpaid'
+  priceId?: string
+  // Subscription item that metered usage is reported against
+  itemId?: string
+  customerId?: string
   currentPeriodStart: string
   currentPeriodEnd: string
   cancelAtPeriodEnd: boolean
+  trialEnd?: string
 }
 
 export interface Customer {
@@ -49,6 +202,46 @@ export interface Customer {
   created: string
 }
 
+export interface Refund {
+  id: string
+  paymentIntentId: string
+  amount: number // major units
+  currency: string
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled' | 'requires_action'
+}
+
+export interface UsageRecord {
+  id: string
+  subscriptionItemId: string
+  quantity: number
+  timestamp: string
+}
+
+// Amounts in major units of the invoice currency
+export interface InvoiceLine {
+  description: string
+  priceId?: string
+  quantity: number
+  amount: number
+}
+
+// What the subscription's next invoice would charge if it were created now
+export interface InvoicePreview {
+  subscriptionId: string
+  currency: string
+  periodStart: string
+  periodEnd: string
+  lines: InvoiceLine[]
+  subtotal: number
+  total: number
+}
+
+// Hosted page where customers manage cards, invoices and cancellation
+export interface BillingPortalSession {
+  id: string
+  url: string
+}
+
 export interface PaymentMethod {
   id: string
   type: 'card' | 'bank_account'
@@ -60,6 +253,10 @@ export interface PaymentMethod {
   }
 }
 
+// Open checkouts expire after this long, which also ends the stock hold of their
+// pending order. Just over Stripe's 30-minute minimum, so clock skew can't go under it.
+const CHECKOUT_SESSION_TTL = 31 * 60 // seconds
+
 // Stripe Payment Provider
 class StripePaymentProvider implements PaymentProvider {
   private stripe: any
@@ -70,37 +267,165 @@ class StripePaymentProvider implements PaymentProvider {
     }
   }
 
-  async createCheckoutSession(items: CheckoutItem[], successUrl: string, cancelUrl: string): Promise<CheckoutSession> {
+  async createCheckoutSession(
+    items: CheckoutItem[],
+    successUrl: string,
+    cancelUrl: string,
+    options: CheckoutOptions = {}
+  ): Promise<CheckoutSession> {
     if (!this.stripe) throw new Error('Stripe not configured')
 
-    const lineItems = items.map(item => ({
+    const validationError = validateCheckout(items, options)
+    if (validationError) throw new Error(validationError)
+
+    const mode = options.mode || 'payment'
+    const metadata = options.metadata || {}
+    const promotionCode = options.promotionCode
+      ? await this.findPromotionCode(options.promotionCode)
+      : null
+
+    if (options.promotionCode && !promotionCode) throw new Error('Invalid promotion code')
+
+    const lineItems = items.map(item => item.priceId ? {
+      price: item.priceId,
+      quantity: item.quantity,
+    } : {
       price_data: {
-        currency: 'usd',
+        currency: normalizeCurrency(item.currency),
         product_data: {
           name: item.name,
           description: item.description,
           images: item.image ? [item.image] : undefined,
+          // Lets the webhook reconcile each line with our products table
+          metadata: { product_id: item.id },
         },
-        unit_amount: Math.round(item.price * 100), // Convert to cents
+        unit_amount: toMinorUnits(item.price!, item.currency || DEFAULT_CURRENCY),
       },
       quantity: item.quantity,
-    }))
+    })
 
     const session = await this.stripe.checkout.sessions.create({
       payment_method_types: ['card'],
-      line_items: lineItems,
-      mode: 'payment',
+      line_items: mode === 'setup' ? undefined : lineItems,
+      mode,
+      customer: options.customerId,
+      metadata,
+      // Copy metadata to the object the webhook receives for each mode
+      payment_intent_data: mode === 'payment' ? { metadata: { ...metadata, ...CHECKOUT_PAYMENT_METADATA } } : undefined,
+      subscription_data: mode === 'subscription' ? {
+        metadata,
+        trial_period_days: options.trialDays,
+      } : undefined,
+      setup_intent_data: mode === 'setup' ? { metadata } : undefined,
+      allow_promotion_codes: options.allowPromotionCodes || undefined,
+      discounts: promotionCode ? [{ promotion_code: promotionCode.id }] : undefined,
       success_url: successUrl,
       cancel_url: cancelUrl,
+      expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_SESSION_TTL,
     })
 
     return {
       id: session.id,
       url: session.url,
-      status: session.status
+      status: session.status,
+      mode,
+      amountSubtotal: session.amount_subtotal != null ? fromMinorUnits(session.amount_subtotal, session.currency) : undefined,
+      amountTotal: session.amount_total != null ? fromMinorUnits(session.amount_total, session.currency) : undefined,
+      currency: session.currency || undefined
+    }
+  }
+
+  async validateCoupon(code: string, items: CheckoutItem[]): Promise<CouponPreview> {
+    if (!this.stripe) throw new Error('Stripe not configured')
+
+    const promotionCode = await this.findPromotionCode(code)
+    if (!promotionCode || !promotionCode.coupon.valid) {
+      return previewDiscount(items, null, code)
+    }
+
+    const { coupon, restrictions } = promotionCode
+    return previewDiscount(items, {
+      code,
+      percentOff: coupon.percent_off ?? undefined,
+      amountOff: coupon.amount_off != null ? fromMinorUnits(coupon.amount_off, coupon.currency) : undefined,
+      currency: coupon.currency ?? undefined,
+      minimumAmount: restrictions.minimum_amount != null
+        ? fromMinorUnits(restrictions.minimum_amount, restrictions.minimum_amount_currency)
+        : undefined
+    })
+  }
+
+  async refund(paymentIntentId: string, amount?: number): Promise<Refund> {
+    if (!this.stripe) throw new Error('Stripe not configured')
+
+    // Partial amounts are converted with the payment's own currency
+    const paymentIntent = amount !== undefined
+      ? await this.stripe.paymentIntents.retrieve(paymentIntentId)
+      : null
+
+    const refund = await this.stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      amount: paymentIntent ? toMinorUnits(amount!, paymentIntent.currency) : undefined,
+    })
+
+    return {
+      id: refund.id,
+      paymentIntentId,
+      amount: fromMinorUnits(refund.amount, refund.currency),
+      currency: refund.currency,
+      status: refund.status
+    }
+  }
+
+  async recordUsage(
+    subscriptionItemId: string,
+    quantity: number,
+    timestamp: Date,
+    idempotencyKey?: string
+  ): Promise<UsageRecord> {
+    if (!this.stripe) throw new Error('Stripe not configured')
+
+    const record = await this.stripe.subscriptionItems.createUsageRecord(subscriptionItemId, {
+      quantity,
+      timestamp: Math.floor(timestamp.getTime() / 1000),
+      action: 'increment',
+    }, idempotencyKey ? { idempotencyKey } : undefined)
+
+    return {
+      id: record.id,
+      subscriptionItemId,
+      quantity: record.quantity,
+      timestamp: new Date(record.timestamp * 1000).toISOString()
+    }
+  }
+
+  async getUpcomingInvoice(subscriptionId: string): Promise<InvoicePreview> {
+    if (!this.stripe) throw new Error('Stripe not configured')
+
+    const invoice = await this.stripe.invoices.retrieveUpcoming({ subscription: subscriptionId })
+
+    return {
+      subscriptionId,
+      currency: invoice.currency,
+      periodStart: new Date(invoice.period_start * 1000).toISOString(),
+      periodEnd: new Date(invoice.period_end * 1000).toISOString(),
+      lines: invoice.lines.data.map((line: any) => ({
+        description: line.description || '',
+        priceId: line.price?.id,
+        quantity: line.quantity ?? 0,
+        amount: fromMinorUnits(line.amount, invoice.currency)
+      })),
+      subtotal: fromMinorUnits(invoice.subtotal, invoice.currency),
+      total: fromMinorUnits(invoice.total, invoice.currency)
     }
   }
 
+  // Customer-facing codes map to promotion code objects, which wrap a coupon
+  private async findPromotionCode(code: string) {
+    const { data } = await this.stripe.promotionCodes.list({ code, active: true, limit: 1 })
+    return data[0] || null
+  }
+
   async createSubscription(priceId: string, customerId: string): Promise<Subscription> {
     if (!this.stripe) throw new Error('Stripe not configured')
 
@@ -114,6 +439,9 @@ class StripePaymentProvider implements PaymentProvider {
     return {
       id: subscription.id,
       status: subscription.status,
+      priceId,
+      itemId: subscription.items.data[0]?.id,
+      customerId,
       currentPeriodStart: new Date(subscription.current_period_start * 1000).toISOString(),
       currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
       cancelAtPeriodEnd: subscription.cancel_at_period_end
@@ -141,13 +469,13 @@ class StripePaymentProvider implements PaymentProvider {
     }
   }
 
-  async createCustomer(email: string, name?: string): Promise<Customer> {
+  async createCustomer(email: string, name?: string, idempotencyKey?: string): Promise<Customer> {
     if (!this.stripe) throw new Error('Stripe not configured')
 
     const customer = await this.stripe.customers.create({
       email,
       name,
-    })
+    }, idempotencyKey ? { idempotencyKey } : undefined)
 
     return {
       id: customer.id,
@@ -176,64 +504,708 @@ class StripePaymentProvider implements PaymentProvider {
       } : undefined
     }))
   }
+
+  async createBillingPortalSession(customerId: string, returnUrl: string): Promise<BillingPortalSession> {
+    if (!this.stripe) throw new Error('Stripe not configured')
+
+    const session = await this.stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    })
+
+    return {
+      id: session.id,
+      url: session.url
+    }
+  }
+}
+
+// Stripe's test payment method ids, so the same values work against a Stripe test account
+const MOCK_TEST_CARDS: Record<string, { brand: string; last4: string; declineCode?: string }> = {
+  pm_card_visa: { brand: 'visa', last4: '4242' },
+  pm_card_mastercard: { brand: 'mastercard', last4: '4444' },
+  pm_card_chargeDeclined: { brand: 'visa', last4: '0002', declineCode: 'card_declined' },
+  pm_card_chargeDeclinedInsufficientFunds: { brand: 'visa', last4: '9995', declineCode: 'insufficient_funds' }
+}
+
+// Keep the event log short; it exists for inspecting recent activity
+const MOCK_EVENT_LIMIT = 100
+
+const MOCK_BILLING_PERIOD = 30 * 24 * 60 * 60 * 1000 // 30 days
+
+// Prices are managed in the Stripe dashboard; the mock only knows the ones added with addPrice
+export interface MockPrice {
+  id: string
+  unitAmount: number // major units of `currency`
+  currency: string
+  // metered: billed per reported unit of usage, licensed: per subscription quantity
+  usageType: 'licensed' | 'metered'
+}
+
+interface MockCustomer extends Customer {
+  defaultPaymentMethodId?: string
+  idempotencyKey?: string
+}
+
+interface MockPaymentMethod extends PaymentMethod {
+  customerId: string
+  // Set for test cards that fail every charge
+  declineCode?: string
+}
+
+interface MockSubscription extends Subscription {
+  quantity: number
+  metadata: Record<string, string>
+  canceledAt?: string
+}
+
+interface MockPayment {
+  id: string
+  chargeId: string
+  customerId?: string
+  amount: number // minor units
+  currency: string
+  status: 'succeeded' | 'failed'
+  metadata: Record<string, string>
+  refunds: Refund[]
+}
+
+interface MockUsageRecord extends UsageRecord {
+  idempotencyKey?: string
+}
+
+// Stripe-shaped event, delivered to the same handler as real webhooks
+export interface MockPaymentEvent {
+  id: string
+  type: string
+  created: number
+  data: { object: Record<string, any> }
+}
+
+interface MockPaymentState {
+  nextId: number
+  customers: Record<string, MockCustomer>
+  paymentMethods: Record<string, MockPaymentMethod>
+  subscriptions: Record<string, MockSubscription>
+  payments: Record<string, MockPayment>
+  usageRecords: MockUsageRecord[]
+  events: MockPaymentEvent[]
+}
+
+const emptyMockState = (): MockPaymentState => ({
+  nextId: 1,
+  customers: {},
+  paymentMethods: {},
+  subscriptions: {},
+  payments: {},
+  usageRecords: [],
+  events: []
+})
+
+const isRedeemable = (coupon: Coupon) => {
+  return coupon.maxRedemptions === undefined || (coupon.timesRedeemed || 0) < coupon.maxRedemptions
+}
+
+// Errors for requests Stripe would refuse with a 4xx, see isRejectedRequest
+const invalidRequest = (message: string, statusCode = 400) => {
+  return Object.assign(new Error(message), { statusCode })
+}
+
+const toUnixTime = (date: string | undefined) => {
+  return date ? Math.floor(new Date(date).getTime() / 1000) : null
 }
 
 // Mock Payment Provider (for development/testing)
-class MockPaymentProvider implements PaymentProvider {
-  async createCheckoutSession(items: CheckoutItem[], successUrl: string, cancelUrl: string): Promise<CheckoutSession> {
-    // Simulate successful checkout
+//
+// Keeps customers, cards, subscriptions and payments in memory, or in the JSON
+// file named by MOCK_PAYMENTS_STATE_FILE so they survive restarts. Every change
+// emits the event Stripe would send and runs it through processStripeEvent.
+// Attach pm_card_chargeDeclined to a customer to make their payments fail, and
+// call renewSubscription to bill the next period (past_due when the card declines).
+export class MockPaymentProvider implements PaymentProvider {
+  // Coupons added in code; the coupons table is checked when Supabase is configured
+  private coupons: Map<string, Coupon> = new Map()
+  private prices: Map<string, MockPrice> = new Map()
+  private state: MockPaymentState
+
+  constructor(private stateFile: string | undefined = process.env.MOCK_PAYMENTS_STATE_FILE) {
+    this.state = this.load()
+  }
+
+  addCoupon(coupon: Coupon) {
+    this.coupons.set(coupon.code.toUpperCase(), coupon)
+  }
+
+  addPrice(price: MockPrice) {
+    this.prices.set(price.id, { ...price, currency: normalizeCurrency(price.currency) })
+  }
+
+  private load(): MockPaymentState {
+    // Client bundles never touch the file system
+    if (typeof window === 'undefined' && this.stateFile) {
+      const fs = require('fs')
+      if (fs.existsSync(this.stateFile)) {
+        return { ...emptyMockState(), ...JSON.parse(fs.readFileSync(this.stateFile, 'utf8')) }
+      }
+    }
+    return emptyMockState()
+  }
+
+  private save() {
+    if (typeof window === 'undefined' && this.stateFile) {
+      const fs = require('fs')
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2))
+    }
+  }
+
+  reset() {
+    this.state = emptyMockState()
+    this.save()
+  }
+
+  // Sequential ids keep state files and logs easy to read
+  private generateId(prefix: string) {
+    return `mock_${prefix}_${String(this.state.nextId++).padStart(6, '0')}`
+  }
+
+  getEvents(): MockPaymentEvent[] {
+    return [...this.state.events]
+  }
+
+  private async emit(type: string, object: Record<string, any>) {
+    const event: MockPaymentEvent = {
+      id: this.generateId('evt'),
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object }
+    }
+    this.state.events = [...this.state.events, event].slice(-MOCK_EVENT_LIMIT)
+    this.save()
+
+    // Webhook processing writes with the service role client; without it the event is only logged
+    const { supabaseAdmin } = require('./supabase')
+    if (!supabaseAdmin) return
+
+    try {
+      const { processStripeEvent } = require('./webhooks')
+      await processStripeEvent(event)
+    } catch (error) {
+      // Like a failed webhook delivery, this does not undo the change itself
+      console.error('Mock webhook delivery error:', error)
+    }
+  }
+
+  private findCustomer(customerId: string): MockCustomer {
+    const customer = this.state.customers[customerId]
+    if (!customer) throw new Error(`No such customer: ${customerId}`)
+    return customer
+  }
+
+  private findSubscription(subscriptionId: string): MockSubscription {
+    const subscription = this.state.subscriptions[subscriptionId]
+    if (!subscription) throw new Error(`No such subscription: ${subscriptionId}`)
+    return subscription
+  }
+
+  // Decline code of the card that would be charged, or null when it succeeds.
+  // Guests pay with a card entered at checkout, which always succeeds.
+  private getDeclineCode(customerId?: string): string | null {
+    if (!customerId) return null
+    const { defaultPaymentMethodId } = this.findCustomer(customerId)
+    if (!defaultPaymentMethodId) return 'payment_method_missing'
+    return this.state.paymentMethods[defaultPaymentMethodId]?.declineCode ?? null
+  }
+
+  // Adds one of Stripe's test cards (e.g. pm_card_chargeDeclined) as the default card
+  async attachPaymentMethod(customerId: string, testCard: string): Promise<PaymentMethod> {
+    const customer = this.findCustomer(customerId)
+    const card = MOCK_TEST_CARDS[testCard]
+    if (!card) throw new Error(`Unknown test card: ${testCard}`)
+
+    const paymentMethod: MockPaymentMethod = {
+      id: this.generateId('pm'),
+      type: 'card',
+      customerId,
+      card: { brand: card.brand, last4: card.last4, expMonth: 12, expYear: new Date().getFullYear() + 3 },
+      declineCode: card.declineCode
+    }
+    this.state.paymentMethods[paymentMethod.id] = paymentMethod
+    customer.defaultPaymentMethodId = paymentMethod.id
+    this.save()
+
+    await this.emit('payment_method.attached', {
+      id: paymentMethod.id,
+      object: 'payment_method',
+      customer: customerId,
+      type: 'card'
+    })
+    return this.toPaymentMethod(paymentMethod)
+  }
+
+  private toPaymentMethod({ id, type, card }: MockPaymentMethod): PaymentMethod {
+    return { id, type, card }
+  }
+
+  private toUsageRecord({ idempotencyKey, ...record }: MockUsageRecord): UsageRecord {
+    return record
+  }
+
+  private toSubscription({ quantity, metadata, canceledAt, ...subscription }: MockSubscription): Subscription {
+    return subscription
+  }
+
+  private subscriptionObject(subscription: MockSubscription) {
     return {
-      id: `mock_session_${Date.now()}`,
-      url: successUrl,
-      status: 'complete'
+      id: subscription.id,
+      object: 'subscription',
+      customer: subscription.customerId,
+      status: subscription.status,
+      items: {
+        data: [{ id: subscription.itemId, price: { id: subscription.priceId }, quantity: subscription.quantity }]
+      },
+      current_period_start: toUnixTime(subscription.currentPeriodStart),
+      current_period_end: toUnixTime(subscription.currentPeriodEnd),
+      cancel_at_period_end: subscription.cancelAtPeriodEnd,
+      canceled_at: toUnixTime(subscription.canceledAt),
+      trial_end: toUnixTime(subscription.trialEnd),
+      metadata: subscription.metadata
     }
   }
 
-  async createSubscription(priceId: string, customerId: string): Promise<Subscription> {
+  private paymentIntentObject(payment: MockPayment, declineCode?: string) {
     return {
-      id: `mock_sub_${Date.now()}`,
-      status: 'active',
-      currentPeriodStart: new Date().toISOString(),
-      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
-      cancelAtPeriodEnd: false
+      id: payment.id,
+      object: 'payment_intent',
+      amount: payment.amount,
+      amount_received: payment.status === 'succeeded' ? payment.amount : 0,
+      currency: payment.currency,
+      customer: payment.customerId ?? null,
+      status: payment.status === 'succeeded' ? 'succeeded' : 'requires_payment_method',
+      last_payment_error: declineCode ? { code: 'card_declined', decline_code: declineCode } : null,
+      metadata: payment.metadata
     }
   }
 
-  async cancelSubscription(subscriptionId: string): Promise<void> {
-    // Mock cancellation
+  private async charge(
+    amount: number,
+    currency: string,
+    customerId: string | undefined,
+    metadata: Record<string, string>
+  ): Promise<MockPayment> {
+    const declineCode = this.getDeclineCode(customerId)
+    const payment: MockPayment = {
+      id: this.generateId('pi'),
+      chargeId: this.generateId('ch'),
+      customerId,
+      amount,
+      currency,
+      status: declineCode ? 'failed' : 'succeeded',
+      metadata,
+      refunds: []
+    }
+    this.state.payments[payment.id] = payment
+    this.save()
+
+    await this.emit(
+      declineCode ? 'payment_intent.payment_failed' : 'payment_intent.succeeded',
+      this.paymentIntentObject(payment, declineCode ?? undefined)
+    )
+    return payment
   }
 
-  async getCustomer(customerId: string): Promise<Customer | null> {
+  private async startSubscription(
+    priceId: string,
+    customerId: string,
+    options: { quantity?: number; trialDays?: number; metadata?: Record<string, string> } = {}
+  ): Promise<MockSubscription> {
+    this.findCustomer(customerId)
+    const now = Date.now()
+    const trialEnd = options.trialDays ? now + options.trialDays * 24 * 60 * 60 * 1000 : null
+
+    // Trials start without a charge; otherwise the first invoice is paid up front
+    const status: Subscription['status'] = trialEnd
+      ? 'trialing'
+      : this.getDeclineCode(customerId) ? 'incomplete' : 'active'
+
+    const subscription: MockSubscription = {
+      id: this.generateId('sub'),
+      status,
+      priceId,
+      itemId: this.generateId('si'),
+      customerId,
+      quantity: options.quantity || 1,
+      metadata: options.metadata || {},
+      currentPeriodStart: new Date(now).toISOString(),
+      currentPeriodEnd: new Date(trialEnd ?? now + MOCK_BILLING_PERIOD).toISOString(),
+      cancelAtPeriodEnd: false,
+      trialEnd: trialEnd ? new Date(trialEnd).toISOString() : undefined
+    }
+    this.state.subscriptions[subscription.id] = subscription
+    this.save()
+
+    await this.emit('customer.subscription.created', this.subscriptionObject(subscription))
+    return subscription
+  }
+
+  private async findCoupon(code: string): Promise<Coupon | null> {
+    const normalized = code.trim().toUpperCase()
+    const local = this.coupons.get(normalized)
+    if (local) return isRedeemable(local) ? local : null
+    if (!isProviderEnabled('supabase')) return null
+
+    // The coupons table has no policies, so only the service role can read it
+    const { requireSupabaseAdmin } = require('./supabase')
+    const { data } = await requireSupabaseAdmin('look up coupons')
+      .from('coupons')
+      .select('*')
+      .eq('code', normalized)
+      .eq('active', true)
+      .maybeSingle()
+
+    if (!data) return null
+    if (data.expires_at && new Date(data.expires_at).getTime() < Date.now()) return null
+
+    const coupon: Coupon = {
+      code: data.code,
+      percentOff: data.percent_off ?? undefined,
+      amountOff: data.amount_off ?? undefined,
+      currency: data.currency ?? undefined,
+      minimumAmount: data.minimum_amount ?? undefined,
+      maxRedemptions: data.max_redemptions ?? undefined,
+      timesRedeemed: data.times_redeemed
+    }
+    return isRedeemable(coupon) ? coupon : null
+  }
+
+  // Count a checkout against the code's limit. Returns false when another
+  // checkout used it up since it was validated.
+  private async redeemCoupon(code: string): Promise<boolean> {
+    const normalized = code.trim().toUpperCase()
+    const local = this.coupons.get(normalized)
+    if (local) {
+      if (!isRedeemable(local)) return false
+      this.coupons.set(normalized, { ...local, timesRedeemed: (local.timesRedeemed || 0) + 1 })
+      return true
+    }
+    if (!isProviderEnabled('supabase')) return false
+
+    const { requireSupabaseAdmin } = require('./supabase')
+    const { data, error } = await requireSupabaseAdmin('redeem coupons').rpc('redeem_coupon', { p_code: normalized })
+    if (error) throw error
+    return data === true
+  }
+
+  private async releaseCoupon(code: string) {
+    const normalized = code.trim().toUpperCase()
+    const local = this.coupons.get(normalized)
+    if (local) {
+      this.coupons.set(normalized, { ...local, timesRedeemed: Math.max((local.timesRedeemed || 0) - 1, 0) })
+      return
+    }
+    if (!isProviderEnabled('supabase')) return
+
+    const { requireSupabaseAdmin } = require('./supabase')
+    const { error } = await requireSupabaseAdmin('redeem coupons').rpc('release_coupon', { p_code: normalized })
+    if (error) throw error
+  }
+
+  async validateCoupon(code: string, items: CheckoutItem[]): Promise<CouponPreview> {
+    return previewDiscount(items, await this.findCoupon(code), code)
+  }
+
+  async refund(paymentIntentId: string, amount?: number): Promise<Refund> {
+    const payment = this.state.payments[paymentIntentId]
+    if (!payment) throw new Error(`No such payment_intent: ${paymentIntentId}`)
+    if (payment.status !== 'succeeded') throw new Error('Only successful payments can be refunded')
+
+    const { currency } = payment
+    const refunded = payment.refunds.reduce((sum, refund) => sum + toMinorUnits(refund.amount, currency), 0)
+    const remaining = payment.amount - refunded
+    const amountMinor = amount === undefined ? remaining : toMinorUnits(amount, currency)
+    if (amountMinor <= 0 || amountMinor > remaining) {
+      throw new Error(`Refund amount must be more than 0 and at most ${fromMinorUnits(remaining, currency)}`)
+    }
+
+    const refund: Refund = {
+      id: this.generateId('re'),
+      paymentIntentId,
+      amount: fromMinorUnits(amountMinor, currency),
+      currency,
+      status: 'succeeded'
+    }
+    payment.refunds.push(refund)
+    this.save()
+
+    await this.emit('charge.refunded', {
+      id: payment.chargeId,
+      object: 'charge',
+      payment_intent: payment.id,
+      amount: payment.amount,
+      amount_refunded: refunded + amountMinor,
+      currency,
+      refunded: refunded + amountMinor === payment.amount,
+      refunds: {
+        data: payment.refunds.map((item) => ({
+          id: item.id,
+          object: 'refund',
+          amount: toMinorUnits(item.amount, currency),
+          currency,
+          status: item.status,
+          reason: null,
+          payment_intent: payment.id
+        }))
+      }
+    })
+    return refund
+  }
+
+  // Checkout pays with the customer's default card, so a declining card sends the
+  // customer back to cancelUrl with the session still open, as abandoning would
+  async createCheckoutSession(
+    items: CheckoutItem[],
+    successUrl: string,
+    cancelUrl: string,
+    options: CheckoutOptions = {}
+  ): Promise<CheckoutSession> {
+    const validationError = validateCheckout(items, options)
+    if (validationError) throw new Error(validationError)
+
+    let totals = previewDiscount(items, null)
+    if (options.promotionCode) {
+      totals = await this.validateCoupon(options.promotionCode, items)
+      if (!totals.valid) throw new Error('Invalid promotion code')
+    }
+
+    const mode = options.mode || 'payment'
+    const metadata = options.metadata || {}
+    const id = this.generateId('cs')
+
+    // Like Stripe, subscription and setup checkouts create a customer when none is given
+    const customerId = options.customerId || (mode === 'payment'
+      ? undefined
+      : (await this.createCustomer('guest@example.com', 'Guest')).id)
+
+    // Claim a use of the code before charging, so concurrent checkouts cannot
+    // take it past its limit. A checkout that is not paid gives it back.
+    const { promotionCode } = options
+    if (promotionCode && !(await this.redeemCoupon(promotionCode))) {
+      throw new Error('Invalid promotion code')
+    }
+
+    let paid = true
+    let paymentIntentId: string | null = null
+    let subscriptionId: string | null = null
+
+    try {
+      if (mode === 'payment') {
+        const payment = await this.charge(
+          toMinorUnits(totals.total, totals.currency),
+          totals.currency,
+          customerId,
+          { ...metadata, ...CHECKOUT_PAYMENT_METADATA }
+        )
+        paymentIntentId = payment.id
+        paid = payment.status === 'succeeded'
+      } else if (mode === 'subscription') {
+        paid = !this.getDeclineCode(customerId)
+        if (paid) {
+          const subscription = await this.startSubscription(items[0].priceId!, customerId!, {
+            quantity: items[0].quantity,
+            trialDays: options.trialDays,
+            metadata
+          })
+          subscriptionId = subscription.id
+        }
+      } else {
+        await this.attachPaymentMethod(customerId!, 'pm_card_visa')
+      }
+    } catch (error) {
+      if (promotionCode) await this.releaseCoupon(promotionCode)
+      throw error
+    }
+    if (!paid && promotionCode) await this.releaseCoupon(promotionCode)
+
+    const url = new URL(paid ? successUrl : cancelUrl)
+    url.searchParams.set('session_id', id)
+
+    if (paid) {
+      await this.emit('checkout.session.completed', {
+        id,
+        object: 'checkout.session',
+        created: Math.floor(Date.now() / 1000),
+        mode,
+        customer: customerId ?? null,
+        payment_intent: paymentIntentId,
+        subscription: subscriptionId,
+        payment_status: mode === 'payment' ? 'paid' : 'no_payment_required',
+        amount_subtotal: toMinorUnits(totals.subtotal, totals.currency),
+        amount_total: toMinorUnits(totals.total, totals.currency),
+        currency: totals.currency,
+        metadata
+      })
+    }
+
     return {
-      id: customerId,
-      email: 'mock@example.com',
-      name: 'Mock Customer',
-      created: new Date().toISOString()
+      id,
+      url: url.toString(),
+      status: paid ? 'complete' : 'open',
+      mode,
+      amountSubtotal: totals.subtotal,
+      amountTotal: totals.total,
+      currency: totals.currency
     }
   }
 
-  async createCustomer(email: string, name?: string): Promise<Customer> {
+  async createSubscription(priceId: string, customerId: string): Promise<Subscription> {
+    return this.toSubscription(await this.startSubscription(priceId, customerId))
+  }
+
+  // Bills the next period, as Stripe does when the current one ends. A declined
+  // card leaves the subscription past_due; a later successful renewal recovers it.
+  async renewSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = this.findSubscription(subscriptionId)
+    if (subscription.status === 'canceled') throw new Error('Canceled subscriptions cannot be renewed')
+
+    if (this.getDeclineCode(subscription.customerId)) {
+      subscription.status = 'past_due'
+    } else {
+      const now = Date.now()
+      subscription.status = 'active'
+      subscription.currentPeriodStart = new Date(now).toISOString()
+      subscription.currentPeriodEnd = new Date(now + MOCK_BILLING_PERIOD).toISOString()
+    }
+    this.save()
+
+    await this.emit('customer.subscription.updated', this.subscriptionObject(subscription))
+    return this.toSubscription(subscription)
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    const subscription = this.findSubscription(subscriptionId)
+    if (subscription.status === 'canceled') throw new Error('Subscription is already canceled')
+
+    subscription.status = 'canceled'
+    subscription.canceledAt = new Date().toISOString()
+    this.save()
+
+    await this.emit('customer.subscription.deleted', this.subscriptionObject(subscription))
+  }
+
+  async recordUsage(
+    subscriptionItemId: string,
+    quantity: number,
+    timestamp: Date,
+    idempotencyKey?: string
+  ): Promise<UsageRecord> {
+    const repeated = idempotencyKey && this.state.usageRecords.find((record) => record.idempotencyKey === idempotencyKey)
+    if (repeated) return this.toUsageRecord(repeated)
+
+    const subscription = Object.values(this.state.subscriptions)
+      .find((item) => item.itemId === subscriptionItemId)
+    if (!subscription) throw invalidRequest(`No such subscription item: ${subscriptionItemId}`, 404)
+    if (subscription.status === 'canceled') throw invalidRequest('Cannot record usage for a canceled subscription')
+    if (!Number.isInteger(quantity) || quantity < 1) throw invalidRequest('Usage quantity must be a positive whole number')
+
+    const time = timestamp.getTime()
+    if (time < new Date(subscription.currentPeriodStart).getTime() || time > Date.now()) {
+      throw invalidRequest('Usage timestamp must fall within the current billing period')
+    }
+
+    const record: MockUsageRecord = {
+      id: this.generateId('mbur'),
+      subscriptionItemId,
+      quantity,
+      timestamp: timestamp.toISOString(),
+      idempotencyKey
+    }
+    this.state.usageRecords.push(record)
+    this.save()
+
+    return this.toUsageRecord(record)
+  }
+
+  // Bills the subscription quantity for licensed prices and this period's usage for
+  // metered ones. Prices not added with addPrice are charged at 0.
+  async getUpcomingInvoice(subscriptionId: string): Promise<InvoicePreview> {
+    const subscription = this.findSubscription(subscriptionId)
+    if (subscription.status === 'canceled') throw new Error('Canceled subscriptions have no upcoming invoice')
+
+    const price = this.prices.get(subscription.priceId || '')
+    const currency = price?.currency || DEFAULT_CURRENCY
+    const periodStart = new Date(subscription.currentPeriodStart).getTime()
+
+    const quantity = price?.usageType === 'metered'
+      ? this.state.usageRecords
+        .filter((record) => (
+          record.subscriptionItemId === subscription.itemId &&
+          new Date(record.timestamp).getTime() >= periodStart
+        ))
+        .reduce((sum, record) => sum + record.quantity, 0)
+      : subscription.quantity
+
+    const amountMinor = toMinorUnits(price?.unitAmount || 0, currency) * quantity
+    const amount = fromMinorUnits(amountMinor, currency)
+
     return {
-      id: `mock_customer_${Date.now()}`,
+      subscriptionId,
+      currency,
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+      lines: [{
+        description: `${quantity} × ${subscription.priceId || 'Unknown price'}`,
+        priceId: subscription.priceId,
+        quantity,
+        amount
+      }],
+      subtotal: amount,
+      total: amount
+    }
+  }
+
+  async getCustomer(customerId: string): Promise<Customer | null> {
+    const customer = this.state.customers[customerId]
+    if (!customer) return null
+
+    const { id, email, name, created } = customer
+    return { id, email, name, created }
+  }
+
+  // New customers start with a working test card so checkouts succeed by default
+  async createCustomer(email: string, name?: string, idempotencyKey?: string): Promise<Customer> {
+    const repeated = idempotencyKey && Object.values(this.state.customers)
+      .find((customer) => customer.idempotencyKey === idempotencyKey)
+    if (repeated) return (await this.getCustomer(repeated.id))!
+
+    const customer: MockCustomer = {
+      id: this.generateId('cus'),
       email,
-      name: name || 'Mock Customer',
-      created: new Date().toISOString()
+      name,
+      created: new Date().toISOString(),
+      idempotencyKey
     }
+    this.state.customers[customer.id] = customer
+    this.save()
+
+    await this.emit('customer.created', { id: customer.id, object: 'customer', email, name: name ?? null })
+    await this.attachPaymentMethod(customer.id, 'pm_card_visa')
+    return (await this.getCustomer(customer.id))!
   }
 
   async getPaymentMethods(customerId: string): Promise<PaymentMethod[]> {
-    return [
-      {
-        id: 'mock_pm_1',
-        type: 'card',
-        card: {
-          brand: 'visa',
-          last4: '4242',
-          expMonth: 12,
-          expYear: 2025
-        }
-      }
-    ]
+    this.findCustomer(customerId)
+    return Object.values(this.state.paymentMethods)
+      .filter((paymentMethod) => paymentMethod.customerId === customerId)
+      .map((paymentMethod) => this.toPaymentMethod(paymentMethod))
+  }
+
+  // There is no hosted portal offline; "visiting" it sends the user straight back
+  async createBillingPortalSession(customerId: string, returnUrl: string): Promise<BillingPortalSession> {
+    this.findCustomer(customerId)
+    const id = this.generateId('bps')
+    const url = new URL(returnUrl)
+    url.searchParams.set('portal_session', id)
+
+    return { id, url: url.toString() }
   }
 }
 
@@ -262,6 +1234,26 @@ class NoPaymentProvider implements PaymentProvider {
   async getPaymentMethods(): Promise<PaymentMethod[]> {
     throw new Error('Payments are disabled')
   }
+
+  async createBillingPortalSession(): Promise<BillingPortalSession> {
+    throw new Error('Payments are disabled')
+  }
+
+  async validateCoupon(): Promise<CouponPreview> {
+    throw new Error('Payments are disabled')
+  }
+
+  async refund(): Promise<Refund> {
+    throw new Error('Payments are disabled')
+  }
+
+  async recordUsage(): Promise<UsageRecord> {
+    throw new Error('Payments are disabled')
+  }
+
+  async getUpcomingInvoice(): Promise<InvoicePreview> {
+    throw new Error('Payments are disabled')
+  }
 }
 
 // Factory function to get the appropriate payment provider
@@ -276,7 +1268,12 @@ export const getPaymentProvider = (): PaymentProvider => {
 
   // Fallback to mock provider for development
   if (process.env.NODE_ENV === 'development') {
-    return new MockPaymentProvider()
+    // Share one instance across route bundles so customers and subscriptions persist between requests
+    const globalForPayments = globalThis as unknown as { mockPaymentProvider?: MockPaymentProvider }
+    if (!globalForPayments.mockPaymentProvider) {
+      globalForPayments.mockPaymentProvider = new MockPaymentProvider()
+    }
+    return globalForPayments.mockPaymentProvider
   }
 
   return new NoPaymentProvider()
@@ -286,8 +1283,8 @@ export const getPaymentProvider = (): PaymentProvider => {
 export const payments = getPaymentProvider()
 
 // Helper functions for common operations
-export const createCheckout = async (items: CheckoutItem[], successUrl: string, cancelUrl: string) => {
-  return await payments.createCheckoutSession(items, successUrl, cancelUrl)
+export const createCheckout = async (items: CheckoutItem[], successUrl: string, cancelUrl: string, options?: CheckoutOptions) => {
+  return await payments.createCheckoutSession(items, successUrl, cancelUrl, options)
 }
 
 export const createCustomerSubscription = async (priceId: string, customerId: string) => {
@@ -324,3 +1321,55 @@ export const usePayments = () => {
     isPaymentsEnabled: isFeatureEnabled('payments')
   }
 }
+
+// React hook for the signed-in user's subscription (null on the free plan)
+export const useSubscription = () => {
+  const [subscription, setSubscription] = React.useState<Subscription | null>(null)
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    if (!isFeatureEnabled('payments')) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await authFetch('/api/payments/subscription')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load subscription')
+      setSubscription(data.subscription)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load subscription')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Full-page redirect to the provider's billing portal
+  const openBillingPortal = async (returnPath = '/billing') => {
+    const response = await authFetch('/api/payments/portal', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ returnPath })
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to open billing portal')
+    window.location.href = data.portalSession.url
+  }
+
+  return {
+    subscription,
+    loading,
+    error,
+    refresh,
+    openBillingPortal,
+    isSubscribed: !!subscription
+  }
+}
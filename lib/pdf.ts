@@ -0,0 +1,222 @@
+/**
+ * PDF Writer
+ *
+ * Just enough of the PDF format to lay out text documents such as invoices
+ * on the server, with no rendering service or native dependency. Text uses
+ * the standard Helvetica fonts every PDF reader ships, so nothing is
+ * embedded; characters outside Windows-1252 are printed as "?".
+ */
+
+export type PdfFont = 'regular' | 'bold'
+
+// RGB components from 0 to 1
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  font?: PdfFont
+  size?: number
+  color?: PdfColor
+  // x is the left edge, right edge or centre of the text
+  align?: 'left' | 'right' | 'center'
+}
+
+export interface PdfLineOptions {
+  width?: number
+  color?: PdfColor
+}
+
+export interface PdfInfo {
+  title?: string
+  author?: string
+}
+
+// A4, in points (1/72 inch) from the bottom-left corner
+export const PAGE_WIDTH = 595.28
+export const PAGE_HEIGHT = 841.89
+
+const BLACK: PdfColor = [0, 0, 0]
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' }
+}
+
+// Advance widths (1/1000 em) of characters 32-126, from the Helvetica AFM files
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+}
+
+// Close enough for accented Latin-1 letters and currency signs
+const DEFAULT_WIDTH = 556
+
+// Windows-1252 codes of the characters it adds to Latin-1 that we are likely to print
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97
+}
+
+// Intl money and date formats use thin and narrow no-break spaces in some locales
+const UNICODE_SPACES = /[\u2000-\u200a\u202f]/g
+
+// One byte per character, so string lengths are byte offsets
+const encodeText = (text: string): string => {
+  return Array.from(text.replace(UNICODE_SPACES, ' ')).map((char) => {
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char])
+    const code = char.charCodeAt(0)
+    const printable = char.length === 1 && (code >= 32 && code < 127 || code >= 0xa0 && code <= 0xff)
+    return printable ? char : '?'
+  }).join('')
+}
+
+const escapeString = (encoded: string) => encoded.replace(/[\\()]/g, (char) => `\\${char}`)
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100)
+
+const formatColor = (color: PdfColor) => color.map(formatNumber).join(' ')
+
+const measureEncoded = (encoded: string, font: PdfFont, size: number): number => {
+  let units = 0
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i)
+    units += code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : DEFAULT_WIDTH
+  }
+  return (units * size) / 1000
+}
+
+const padOffset = (offset: number) => {
+  const digits = String(offset)
+  return '0000000000'.slice(digits.length) + digits
+}
+
+// PDF dates look like D:20261019120000Z
+const formatDate = (date: Date) => {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`
+}
+
+export class PdfDocument {
+  // Content stream operators of each page
+  private pages: string[][] = [[]]
+
+  get pageCount() {
+    return this.pages.length
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  textWidth(text: string, font: PdfFont = 'regular', size = 10): number {
+    return measureEncoded(encodeText(text), font, size)
+  }
+
+  // Shorten text with an ellipsis until it fits in maxWidth
+  truncate(text: string, maxWidth: number, font: PdfFont = 'regular', size = 10): string {
+    if (this.textWidth(text, font, size) <= maxWidth) return text
+
+    let end = text.length
+    while (end > 0 && this.textWidth(`${text.slice(0, end)}...`, font, size) > maxWidth) {
+      end--
+    }
+    return `${text.slice(0, end).replace(/\s+$/, '')}...`
+  }
+
+  // Draw one line of text on the current page, with its baseline at y
+  text(value: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const { font = 'regular', size = 10, color = BLACK, align = 'left' } = options
+    const encoded = encodeText(value)
+    const width = measureEncoded(encoded, font, size)
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x
+
+    this.currentPage.push(
+      `BT /${FONTS[font].resource} ${formatNumber(size)} Tf ${formatColor(color)} rg ` +
+      `${formatNumber(left)} ${formatNumber(y)} Td (${escapeString(encoded)}) Tj ET`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfLineOptions = {}) {
+    const { width = 0.5, color = BLACK } = options
+    this.currentPage.push(
+      `${formatNumber(width)} w ${formatColor(color)} RG ` +
+      `${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`
+    )
+  }
+
+  // Filled rectangle with its bottom-left corner at (x, y)
+  rect(x: number, y: number, width: number, height: number, color: PdfColor) {
+    this.currentPage.push(
+      `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f`
+    )
+  }
+
+  toArrayBuffer(info: PdfInfo = {}): ArrayBuffer {
+    // Fixed objects: 1 catalog, 2 page tree, 3-4 fonts, 5 document info; then a page and its content per page
+    const pageObjectIds = this.pages.map((_, index) => 6 + index * 2)
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.regular.baseFont} /Encoding /WinAnsiEncoding >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.bold.baseFont} /Encoding /WinAnsiEncoding >>`,
+      [
+        '<<',
+        info.title ? `/Title (${escapeString(encodeText(info.title))})` : '',
+        info.author ? `/Author (${escapeString(encodeText(info.author))})` : '',
+        `/CreationDate (${formatDate(new Date())})`,
+        '>>'
+      ].filter(Boolean).join(' ')
+    ]
+
+    this.pages.forEach((operators, index) => {
+      const content = operators.join('\n')
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`
+      )
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    })
+
+    // The binary comment marks the file as binary for transfer tools
+    let output = '%PDF-1.4\n%âãÏÓ\n'
+    const offsets: number[] = []
+    objects.forEach((object, index) => {
+      offsets.push(output.length)
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`
+    })
+
+    const xrefOffset = output.length
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map((offset) => `${padOffset(offset)} 00000 n \n`).join('')
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    const buffer = new ArrayBuffer(output.length)
+    const bytes = new Uint8Array(buffer)
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff
+    }
+    return buffer
+  }
+
+  private get currentPage() {
+    return this.pages[this.pages.length - 1]
+  }
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabaseFake as fake } from '../test/supabase'
+
+vi.mock('./supabase', async () => {
+  const { supabaseFake } = await import('../test/supabase')
+  return { supabase: supabaseFake.client }
+})
+
+import { parsePurchaseItems, priceItems, PricingError } from './products'
+
+const product = (overrides: Record<string, any> = {}) => ({
+  id: 'prod_1',
+  name: 'Widget',
+  description: null,
+  image_url: null,
+  price: 10,
+  currency: 'usd',
+  active: true,
+  track_inventory: false,
+  stock_quantity: 0,
+  ...overrides
+})
+
+beforeEach(() => {
+  fake.reset()
+})
+
+describe('parsePurchaseItems', () => {
+  const productId = '6f1c2b8e-4d3a-4f5b-9c7d-1e2f3a4b5c6d'
+
+  it('keeps only product ids and quantities', () => {
+    expect(parsePurchaseItems([{ productId, quantity: 2, price: 0.01, name: 'Free' }]))
+      .toEqual([{ productId, quantity: 2 }])
+  })
+
+  it('rejects empty lists, missing or malformed ids and bad quantities', () => {
+    expect(() => parsePurchaseItems([])).toThrow(PricingError)
+    expect(() => parsePurchaseItems([{ quantity: 1 }])).toThrow('Each item needs a valid product ID')
+    expect(() => parsePurchaseItems([{ productId: 'prod_1', quantity: 1 }])).toThrow('Each item needs a valid product ID')
+    expect(() => parsePurchaseItems([{ productId, quantity: 0 }])).toThrow('Quantities must be whole numbers')
+    expect(() => parsePurchaseItems([{ productId, quantity: 1.5 }])).toThrow('Quantities must be whole numbers')
+  })
+})
+
+describe('priceItems', () => {
+  it('prices lines from the products table', async () => {
+    fake.queue('products', { data: [product({ price: 2.5 })] })
+
+    const [line] = await priceItems([{ productId: 'prod_1', quantity: 3 }])
+
+    expect(line).toMatchObject({ productId: 'prod_1', unitPrice: 2.5, currency: 'usd', quantity: 3, total: 7.5 })
+  })
+
+  it('rejects more than the tracked stock, counting every line of the product', async () => {
+    fake.queue('products', { data: [product({ track_inventory: true, stock_quantity: 3 })] })
+
+    const error = await priceItems([
+      { productId: 'prod_1', quantity: 2 },
+      { productId: 'prod_1', quantity: 2 }
+    ]).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(PricingError)
+    expect(error).toMatchObject({ code: 'insufficient_stock', productId: 'prod_1' })
+  })
+
+  it('ignores stock for untracked products', async () => {
+    fake.queue('products', { data: [product({ stock_quantity: 0 })] })
+
+    await expect(priceItems([{ productId: 'prod_1', quantity: 5 }])).resolves.toHaveLength(1)
+  })
+
+  it('rejects unknown and inactive products', async () => {
+    fake.queue('products', { data: [] }, { data: [product({ active: false })] })
+
+    await expect(priceItems([{ productId: 'prod_1', quantity: 1 }])).rejects.toMatchObject({ code: 'unknown_product' })
+    await expect(priceItems([{ productId: 'prod_1', quantity: 1 }])).rejects.toMatchObject({ code: 'inactive_product' })
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Product Pricing
+ *
+ * Server-side lookup of product prices for checkout and orders.
+ * Clients only ever send product ids and quantities; names and prices
+ * always come from the products table.
+ */
+
+import { supabase } from './supabase'
+import { normalizeCurrency } from './money'
+import type { CheckoutItem } from './payments'
+
+export interface PurchaseRequestItem {
+  productId: string
+  quantity: number
+}
+
+export interface PricedItem {
+  productId: string
+  name: string
+  description: string | null
+  imageUrl: string | null
+  // In major units of `currency`
+  unitPrice: number
+  currency: string
+  quantity: number
+  total: number
+}
+
+export type PricingErrorCode =
+  | 'invalid_items'
+  | 'invalid_quantity'
+  | 'unknown_product'
+  | 'inactive_product'
+  | 'mixed_currency'
+  | 'insufficient_stock'
+
+export class PricingError extends Error {
+  code: PricingErrorCode
+  productId?: string
+
+  constructor(code: PricingErrorCode, message: string, productId?: string) {
+    super(message)
+    this.name = 'PricingError'
+    this.code = code
+    this.productId = productId
+    Object.setPrototypeOf(this, PricingError.prototype)
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Product ids are uuids; the database rejects anything else instead of matching nothing
+export const isProductId = (value: unknown): value is string => {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+// Accept only { productId, quantity } pairs; anything else the client sends is ignored
+export const parsePurchaseItems = (input: unknown): PurchaseRequestItem[] => {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new PricingError('invalid_items', 'Items are required')
+  }
+
+  return input.map((item: any) => {
+    if (!item || !isProductId(item.productId)) {
+      throw new PricingError('invalid_items', 'Each item needs a valid product ID')
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new PricingError('invalid_quantity', 'Quantities must be whole numbers of at least 1', item.productId)
+    }
+    return { productId: item.productId, quantity: item.quantity }
+  })
+}
+
+// Load current prices for the requested products, rejecting unknown or inactive ones
+// and those without enough stock. Stock is only reserved when an order is created.
+export const priceItems = async (items: PurchaseRequestItem[]): Promise<PricedItem[]> => {
+  const productIds = Array.from(new Set(items.map((item) => item.productId)))
+
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, name, description, image_url, price, currency, active, track_inventory, stock_quantity')
+    .in('id', productIds)
+
+  if (error) throw error
+
+  const productsById = new Map((products || []).map((product: any) => [product.id, product]))
+
+  // The same product may appear on several lines
+  const requested = new Map<string, number>()
+  items.forEach((item) => {
+    requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity)
+  })
+
+  return items.map((item) => {
+    const product = productsById.get(item.productId)
+
+    if (!product) {
+      throw new PricingError('unknown_product', 'Product not found', item.productId)
+    }
+    if (!product.active) {
+      throw new PricingError('inactive_product', 'Product is no longer available', item.productId)
+    }
+    if (product.track_inventory && product.stock_quantity < requested.get(item.productId)!) {
+      throw new PricingError('insufficient_stock', `Only ${product.stock_quantity} left in stock`, item.productId)
+    }
+
+    return {
+      productId: product.id,
+      name: product.name,
+      description: product.description,
+      imageUrl: product.image_url,
+      unitPrice: product.price,
+      currency: normalizeCurrency(product.currency),
+      quantity: item.quantity,
+      total: product.price * item.quantity
+    }
+  })
+}
+
+export const toCheckoutItem = (item: PricedItem): CheckoutItem => {
+  return {
+    id: item.productId,
+    name: item.name,
+    description: item.description || undefined,
+    image: item.imageUrl || undefined,
+    price: item.unitPrice,
+    currency: item.currency,
+    quantity: item.quantity
+  }
+}
+
+// Validate the inventory fields of a product create/update body
+export const validateInventoryFields = (input: { track_inventory?: unknown; stock_quantity?: unknown }): string | null => {
+  if (input.track_inventory !== undefined && typeof input.track_inventory !== 'boolean') {
+    return 'track_inventory must be true or false'
+  }
+  if (
+    input.stock_quantity !== undefined &&
+    (!Number.isInteger(input.stock_quantity) || (input.stock_quantity as number) < 0)
+  ) {
+    return 'stock_quantity must be a whole number of 0 or more'
+  }
+  return null
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('./session', () => ({ getSessionUser: vi.fn() }))
+
+import { canAccess, hasPermission, requirePermission } from './rbac'
+import { getSessionUser, type SessionUser } from './session'
+
+const sessionUser = (overrides: Partial<SessionUser> = {}): SessionUser => ({
+  id: 'user_1',
+  email: 'user@example.com',
+  role: 'user',
+  aal: 'aal1',
+  mfaEnabled: false,
+  ...overrides
+})
+
+const request = () => new NextRequest('http://localhost/api/test')
+
+const rejection = async (result: SessionUser | NextResponse) => {
+  expect(result).toBeInstanceOf(NextResponse)
+  const response = result as NextResponse
+  return { status: response.status, body: await response.json() }
+}
+
+beforeEach(() => {
+  vi.mocked(getSessionUser).mockReset()
+})
+
+describe('hasPermission', () => {
+  it('grants each role its permissions and unknown roles none', () => {
+    expect(hasPermission('user', 'orders:create')).toBe(true)
+    expect(hasPermission('user', 'orders:read')).toBe(false)
+    expect(hasPermission('support', 'orders:read')).toBe(true)
+    expect(hasPermission('admin', 'orders:refund')).toBe(true)
+    expect(hasPermission('owner', 'orders:create')).toBe(false)
+    expect(hasPermission(null, 'orders:create')).toBe(false)
+  })
+})
+
+describe('canAccess', () => {
+  it('lets owners act on their own records without the permission', () => {
+    expect(canAccess(sessionUser(), 'user_1', 'orders:read')).toBe(true)
+    expect(canAccess(sessionUser(), 'user_2', 'orders:read')).toBe(false)
+    expect(canAccess(sessionUser(), null, 'orders:read')).toBe(false)
+    expect(canAccess(sessionUser({ role: 'support' }), 'user_2', 'orders:read')).toBe(true)
+  })
+})
+
+describe('requirePermission', () => {
+  it('rejects requests without a session', async () => {
+    vi.mocked(getSessionUser).mockResolvedValue(null)
+
+    await expect(rejection(await requirePermission(request(), 'orders:read'))).resolves.toEqual({
+      status: 401,
+      body: { error: 'Authentication required', code: 'unauthenticated' }
+    })
+  })
+
+  it('rejects users whose role lacks the permission', async () => {
+    vi.mocked(getSessionUser).mockResolvedValue(sessionUser())
+
+    await expect(rejection(await requirePermission(request(), 'orders:read'))).resolves.toMatchObject({
+      status: 403,
+      body: { code: 'forbidden' }
+    })
+  })
+
+  it('requires a verified second factor for admin permissions', async () => {
+    vi.mocked(getSessionUser).mockResolvedValue(sessionUser({ role: 'admin', aal: 'aal1' }))
+
+    await expect(rejection(await requirePermission(request(), 'admin:access'))).resolves.toMatchObject({
+      status: 403,
+      body: { code: 'mfa_required' }
+    })
+  })
+
+  it('returns the user when the permission is granted', async () => {
+    const admin = sessionUser({ role: 'admin', aal: 'aal2', mfaEnabled: true })
+    vi.mocked(getSessionUser).mockResolvedValue(admin)
+
+    await expect(requirePermission(request(), 'admin:access')).resolves.toBe(admin)
+  })
+
+  it('only asks for the second factor on admin permissions', async () => {
+    const support = sessionUser({ role: 'support' })
+    vi.mocked(getSessionUser).mockResolvedValue(support)
+
+    await expect(requirePermission(request(), 'orders:update')).resolves.toBe(support)
+  })
+})
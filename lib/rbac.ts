@@ -0,0 +1,129 @@
+/**
+ * Role-Based Access Control
+ *
+ * Maps roles to permissions and checks them in API route handlers and UI.
+ * Roles are read from the verified session token (app_metadata.role),
+ * never from request bodies or query strings.
+ */
+
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getSessionUser, type SessionUser } from './session'
+
+export type Role = 'user' | 'support' | 'admin'
+
+export type Permission =
+  | 'admin:access'
+  | 'users:read'
+  | 'users:write'
+  | 'users:delete'
+  | 'orders:read'
+  | 'orders:create'
+  | 'orders:update'
+  | 'orders:delete'
+  | 'orders:refund'
+  | 'products:write'
+  | 'products:delete'
+  | 'files:read'
+  | 'files:write'
+  | 'files:delete'
+
+const USER_PERMISSIONS: Permission[] = [
+  'orders:create',
+  'files:read',
+  'files:write'
+]
+
+const SUPPORT_PERMISSIONS: Permission[] = [
+  ...USER_PERMISSIONS,
+  'users:read',
+  'orders:read',
+  'orders:update'
+]
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...SUPPORT_PERMISSIONS,
+  'admin:access',
+  'users:write',
+  'users:delete',
+  'orders:delete',
+  'orders:refund',
+  'products:write',
+  'products:delete',
+  'files:delete'
+]
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: USER_PERMISSIONS,
+  support: SUPPORT_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS
+}
+
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && value in ROLE_PERMISSIONS
+}
+
+// Unknown roles get no permissions rather than falling back to 'user'
+export const getPermissions = (role: string | null | undefined): Permission[] => {
+  return isRole(role) ? ROLE_PERMISSIONS[role] : []
+}
+
+export const hasPermission = (role: string | null | undefined, permission: Permission): boolean => {
+  return getPermissions(role).includes(permission)
+}
+
+// Stable codes for rejected requests, returned alongside the error message
+export type AccessErrorCode = 'unauthenticated' | 'forbidden' | 'not_owner' | 'mfa_required'
+
+const ACCESS_ERRORS: Record<AccessErrorCode, { status: number; message: string }> = {
+  unauthenticated: { status: 401, message: 'Authentication required' },
+  forbidden: { status: 403, message: 'You do not have permission to perform this action' },
+  not_owner: { status: 403, message: 'This resource belongs to another user' },
+  mfa_required: { status: 403, message: 'Two-factor authentication is required' }
+}
+
+export const accessDenied = (code: AccessErrorCode) => {
+  const { status, message } = ACCESS_ERRORS[code]
+  return NextResponse.json({ error: message, code }, { status })
+}
+
+// Owners may always act on their own records; everyone else needs the permission
+export const canAccess = (user: SessionUser, ownerId: string | null | undefined, permission: Permission): boolean => {
+  return (!!ownerId && user.id === ownerId) || hasPermission(user.role, permission)
+}
+
+// Keep only the fields a client may write; everything else (ids, role, totals) is dropped
+export const pickFields = <T extends string>(input: Record<string, any>, fields: readonly T[]) => {
+  const picked: Partial<Record<T, any>> = {}
+  fields.forEach((field) => {
+    if (input && input[field] !== undefined) picked[field] = input[field]
+  })
+  return picked
+}
+
+// Route handler guards: return the verified user, or the response to send instead.
+//
+//   const user = await requirePermission(request, 'users:read')
+//   if (user instanceof NextResponse) return user
+export const requireSession = async (request: NextRequest): Promise<SessionUser | NextResponse> => {
+  const user = await getSessionUser(request)
+
+  if (!user) return accessDenied('unauthenticated')
+
+  return user
+}
+
+export const requirePermission = async (
+  request: NextRequest,
+  permission: Permission
+): Promise<SessionUser | NextResponse> => {
+  const user = await requireSession(request)
+  if (user instanceof NextResponse) return user
+
+  if (!hasPermission(user.role, permission)) return accessDenied('forbidden')
+
+  // Admin permissions need a verified second factor, like the /admin pages
+  if (permission.startsWith('admin:') && user.aal !== 'aal2') return accessDenied('mfa_required')
+
+  return user
+}
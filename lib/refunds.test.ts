@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabaseFake as fake } from '../test/supabase'
+
+vi.mock('./supabase', async () => {
+  const { supabaseFake } = await import('../test/supabase')
+  return { supabase: supabaseFake.client, requireSupabaseAdmin: () => supabaseFake.client }
+})
+
+vi.mock('./orders', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./orders')>(),
+  transitionOrder: vi.fn()
+}))
+
+import { getChargedAmount, syncOrderRefundStatus } from './refunds'
+import { transitionOrder } from './orders'
+
+const paidOrder = { id: 'order_1', total: 25, amount_paid: 20, currency: 'usd', status: 'paid' }
+
+beforeEach(() => {
+  fake.reset()
+  vi.mocked(transitionOrder).mockReset()
+})
+
+describe('getChargedAmount', () => {
+  it('uses the amount paid, falling back to the total for older orders', () => {
+    expect(getChargedAmount(paidOrder)).toBe(20)
+    expect(getChargedAmount({ ...paidOrder, amount_paid: null })).toBe(25)
+  })
+})
+
+describe('syncOrderRefundStatus', () => {
+  it('marks a discounted order refunded once the charged amount is refunded', async () => {
+    fake.queue('refunds', { data: [{ amount: 15, status: 'succeeded' }, { amount: 5, status: 'pending' }] })
+
+    await expect(syncOrderRefundStatus(paidOrder, 'admin_1')).resolves.toBe('refunded')
+
+    expect(transitionOrder).toHaveBeenCalledWith('order_1', 'refunded', {
+      actorId: 'admin_1',
+      reason: 'Refunded 20 USD in total'
+    }, fake.client)
+  })
+
+  it('marks a partly refunded order partially refunded', async () => {
+    fake.queue('refunds', { data: [{ amount: 5, status: 'succeeded' }] })
+
+    await expect(syncOrderRefundStatus(paidOrder)).resolves.toBe('partially_refunded')
+  })
+
+  it('only counts refunds that are not failed or canceled', async () => {
+    fake.queue('refunds', { data: [] })
+
+    await expect(syncOrderRefundStatus(paidOrder)).resolves.toBeNull()
+
+    expect(fake.callsTo('refunds', 'in')[0].args).toEqual(['status', ['pending', 'succeeded', 'requires_action']])
+    expect(transitionOrder).not.toHaveBeenCalled()
+  })
+
+  it('leaves a partially refunded order alone on another partial refund', async () => {
+    fake.queue('refunds', { data: [{ amount: 10, status: 'succeeded' }] })
+
+    await expect(syncOrderRefundStatus({ ...paidOrder, status: 'partially_refunded' })).resolves.toBeNull()
+    expect(transitionOrder).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * Order Refunds
+ *
+ * Records refunds against orders and derives the order's refund status.
+ * Used by the admin refund route and by the payments webhook, so refunds
+ * issued from the Stripe dashboard end up in the same place.
+ */
+
+import { requireSupabaseAdmin } from './supabase'
+import { toMinorUnits } from './money'
+import { canTransition, transitionOrder, type OrderStatus } from './orders'
+import type { Refund } from './payments'
+
+// Refunds that count against the order total (failed and canceled ones don't)
+const COUNTED_REFUND_STATUSES: Refund['status'][] = ['pending', 'succeeded', 'requires_action']
+
+// Only paid orders can be refunded
+export const REFUNDABLE_ORDER_STATUSES: OrderStatus[] = ['paid', 'fulfilled', 'completed', 'partially_refunded']
+
+const getClient = () => requireSupabaseAdmin('record refunds')
+
+export const recordRefund = async (
+  orderId: string,
+  refund: Refund,
+  details: { reason?: string | null; createdBy?: string | null } = {}
+) => {
+  const row: Record<string, any> = {
+    id: refund.id,
+    order_id: orderId,
+    payment_intent_id: refund.paymentIntentId,
+    amount: refund.amount,
+    currency: refund.currency,
+    status: refund.status,
+    updated_at: new Date().toISOString()
+  }
+
+  // Leave existing values alone when a webhook replays a refund we issued
+  if (details.reason) row.reason = details.reason
+  if (details.createdBy) row.created_by = details.createdBy
+
+  const { error } = await getClient()
+    .from('refunds')
+    .upsert(row, { onConflict: 'id' })
+
+  if (error) throw error
+}
+
+export interface RefundableOrder {
+  id: string
+  total: number
+  // Null for orders paid before the charged amount was recorded
+  amount_paid: number | null
+  currency: string
+  status: string
+}
+
+// What the customer was charged for the order, in major units. Promotion
+// discounts make this less than the order total.
+export const getChargedAmount = (order: RefundableOrder): number => {
+  return Number(order.amount_paid ?? order.total)
+}
+
+// Total refunded so far, in major units of the order currency
+export const getRefundedAmount = async (orderId: string): Promise<number> => {
+  const { data, error } = await getClient()
+    .from('refunds')
+    .select('amount, status')
+    .eq('order_id', orderId)
+    .in('status', COUNTED_REFUND_STATUSES)
+
+  if (error) throw error
+  return (data || []).reduce((sum: number, refund: any) => sum + Number(refund.amount), 0)
+}
+
+// Move a paid order to refunded or partially_refunded based on its recorded refunds.
+// Returns the new status, or null when the order stays as it is.
+export const syncOrderRefundStatus = async (
+  order: RefundableOrder,
+  actorId?: string | null
+): Promise<OrderStatus | null> => {
+  const refunded = await getRefundedAmount(order.id)
+  if (refunded <= 0) return null
+
+  const status: OrderStatus = toMinorUnits(refunded, order.currency) >= toMinorUnits(getChargedAmount(order), order.currency)
+    ? 'refunded'
+    : 'partially_refunded'
+
+  // Another partial refund leaves a partially refunded order where it is
+  if (!canTransition(order.status, status)) return null
+
+  await transitionOrder(order.id, status, {
+    actorId,
+    reason: `Refunded ${refunded} ${order.currency.toUpperCase()} in total`
+  }, getClient())
+  return status
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISSUER = 'https://project.supabase.co/auth/v1'
+
+vi.mock('./config', async () => {
+  const { TEST_JWT_SECRET } = await import('../test/session')
+  return {
+    getProviderConfig: () => ({
+      url: 'https://project.supabase.co',
+      anonKey: 'anon-key',
+      jwtSecret: TEST_JWT_SECRET
+    })
+  }
+})
+
+import { verifySessionToken } from './session'
+import { encode, signToken } from '../test/session'
+
+const now = Math.floor(Date.now() / 1000)
+
+const claims = (overrides: Record<string, any> = {}) => ({
+  sub: 'user_1',
+  email: 'user@example.com',
+  aud: 'authenticated',
+  iss: ISSUER,
+  exp: now + 3600,
+  aal: 'aal1',
+  app_metadata: { role: 'support' },
+  ...overrides
+})
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: now * 1000 })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('verifySessionToken', () => {
+  it('accepts a token signed with the project secret', async () => {
+    const session = await verifySessionToken(await signToken(claims()))
+
+    expect(session).toMatchObject({
+      status: 'valid',
+      user: { id: 'user_1', email: 'user@example.com', role: 'support', aal: 'aal1', mfaEnabled: false }
+    })
+  })
+
+  it('takes the role from app_metadata only', async () => {
+    const session = await verifySessionToken(await signToken(claims({
+      app_metadata: {},
+      user_metadata: { role: 'admin' }
+    })))
+
+    expect(session).toMatchObject({ status: 'valid', user: { role: 'user' } })
+  })
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signToken(claims(), { secret: 'some-other-secret' })
+
+    await expect(verifySessionToken(token)).resolves.toEqual({ status: 'invalid' })
+  })
+
+  it('rejects a token whose claims were changed after signing', async () => {
+    const [header, , signature] = (await signToken(claims())).split('.')
+    const forged = encode(JSON.stringify(claims({ app_metadata: { role: 'admin' } })))
+
+    await expect(verifySessionToken(`${header}.${forged}.${signature}`)).resolves.toEqual({ status: 'invalid' })
+  })
+
+  it('reports an expired token as expired', async () => {
+    const token = await signToken(claims({ exp: now - 1 }))
+
+    await expect(verifySessionToken(token)).resolves.toEqual({ status: 'expired' })
+  })
+
+  it('rejects a token without an expiry or subject', async () => {
+    await expect(verifySessionToken(await signToken(claims({ exp: undefined })))).resolves.toEqual({ status: 'invalid' })
+    await expect(verifySessionToken(await signToken(claims({ sub: undefined })))).resolves.toEqual({ status: 'invalid' })
+  })
+
+  it('rejects tokens for another audience', async () => {
+    await expect(verifySessionToken(await signToken(claims({ aud: 'anon' })))).resolves.toEqual({ status: 'invalid' })
+    await expect(verifySessionToken(await signToken(claims({ aud: ['authenticated', 'other'] }))))
+      .resolves.toMatchObject({ status: 'valid' })
+  })
+
+  it('rejects tokens from another issuer', async () => {
+    const token = await signToken(claims({ iss: 'https://other.supabase.co/auth/v1' }))
+
+    await expect(verifySessionToken(token)).resolves.toEqual({ status: 'invalid' })
+    await expect(verifySessionToken(await signToken(claims({ iss: undefined })))).resolves.toEqual({ status: 'invalid' })
+  })
+
+  it('only accepts HS256', async () => {
+    const unsigned = `${encode(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${encode(JSON.stringify(claims()))}.`
+
+    await expect(verifySessionToken(unsigned)).resolves.toEqual({ status: 'invalid' })
+    await expect(verifySessionToken(await signToken(claims(), { alg: 'HS512' }))).resolves.toEqual({ status: 'invalid' })
+  })
+
+  it('rejects malformed tokens', async () => {
+    await expect(verifySessionToken('not-a-token')).resolves.toEqual({ status: 'invalid' })
+    await expect(verifySessionToken('a.b.c')).resolves.toEqual({ status: 'invalid' })
+  })
+})
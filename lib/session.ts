@@ -0,0 +1,351 @@
+/**
+ * Session Token Verification
+ *
+ * Verifies Supabase access tokens (HS256 JWTs) with the Web Crypto API,
+ * so the same code runs in middleware (Edge runtime) and in route handlers.
+ * Also owns the session cookies the auth routes set and clear.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server'
+import { config, getProviderConfig } from './config'
+
+// Cookie and header names shared by middleware and API routes
+export const ACCESS_TOKEN_COOKIE = 'sb-access-token'
+export const REFRESH_TOKEN_COOKIE = 'sb-refresh-token'
+
+// Refresh tokens outlive access tokens; Supabase keeps them for a week by default
+export const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 7 // 7 days
+
+// Password-verified session parked until the second factor is checked
+export const MFA_PENDING_COOKIE = 'sb-mfa-pending'
+export const MFA_PENDING_MAX_AGE = 60 * 5 // 5 minutes
+
+// PKCE code verifier kept between the OAuth redirect and the callback
+export const OAUTH_VERIFIER_COOKIE = 'sb-oauth-code-verifier'
+export const OAUTH_VERIFIER_MAX_AGE = 60 * 10 // 10 minutes
+
+export const SESSION_HEADERS = {
+  userId: 'x-user-id',
+  email: 'x-user-email',
+  role: 'x-user-role',
+  aal: 'x-user-aal'
+} as const
+
+// Supabase issues tokens for signed-in users with this audience
+export const SESSION_AUDIENCE = 'authenticated'
+
+// Authenticator assurance levels: aal1 = password (or similar), aal2 = second factor verified
+export type AssuranceLevel = 'aal1' | 'aal2'
+
+// Types
+export interface SessionClaims {
+  sub: string
+  email?: string
+  aud: string | string[]
+  exp: number
+  iat?: number
+  iss?: string
+  role?: string
+  aal?: AssuranceLevel
+  app_metadata?: Record<string, any>
+  user_metadata?: Record<string, any>
+}
+
+export interface SessionUser {
+  id: string
+  email: string
+  role: string
+  aal: AssuranceLevel
+  // Set in app_metadata while the user has a verified second factor
+  mfaEnabled: boolean
+}
+
+export type SessionVerification =
+  | { status: 'valid'; user: SessionUser; claims: SessionClaims }
+  | { status: 'expired' }
+  | { status: 'invalid' }
+
+const encoder = new TextEncoder()
+
+const base64UrlEncode = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const base64UrlDecode = (input: string) => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+const decodeJson = (segment: string): any => {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)))
+}
+
+const importKey = (secret: string) => {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+export const getJwtSecret = (): string | null => {
+  return getProviderConfig('supabase').jwtSecret || null
+}
+
+// Supabase Auth signs tokens as <project url>/auth/v1
+export const getSessionIssuer = (): string | null => {
+  const { url } = getProviderConfig('supabase')
+  return url ? `${url.replace(/\/+$/, '')}/auth/v1` : null
+}
+
+// Map verified claims to the user shape passed downstream.
+// The role lives in app_metadata, which only the server can write.
+export const claimsToSessionUser = (claims: SessionClaims): SessionUser => {
+  return {
+    id: claims.sub,
+    email: claims.email || '',
+    role: claims.app_metadata?.role || 'user',
+    aal: claims.aal === 'aal2' ? 'aal2' : 'aal1',
+    mfaEnabled: claims.app_metadata?.mfa_enabled === true
+  }
+}
+
+// Expiry of an access token, read without verifying it; only for scheduling a refresh
+export const readTokenExpiry = (token: string): number | null => {
+  try {
+    const claims = decodeJson(token.split('.')[1])
+    return typeof claims.exp === 'number' ? claims.exp : null
+  } catch (error) {
+    return null
+  }
+}
+
+// Verify signature, expiry, audience and issuer of an access token
+export const verifySessionToken = async (token: string): Promise<SessionVerification> => {
+  const secret = getJwtSecret()
+  if (!secret) return { status: 'invalid' }
+
+  const segments = token.split('.')
+  if (segments.length !== 3) return { status: 'invalid' }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments
+
+  try {
+    const header = decodeJson(encodedHeader)
+    if (header.alg !== 'HS256') return { status: 'invalid' }
+
+    const key = await importKey(secret)
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(encodedSignature),
+      encoder.encode(`${encodedHeader}.${encodedPayload}`)
+    )
+    if (!valid) return { status: 'invalid' }
+
+    const claims = decodeJson(encodedPayload) as SessionClaims
+    if (!claims.sub || typeof claims.exp !== 'number') return { status: 'invalid' }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audiences.includes(SESSION_AUDIENCE)) return { status: 'invalid' }
+
+    const issuer = getSessionIssuer()
+    if (issuer && claims.iss !== issuer) return { status: 'invalid' }
+
+    if (claims.exp * 1000 <= Date.now()) return { status: 'expired' }
+
+    return { status: 'valid', user: claimsToSessionUser(claims), claims }
+  } catch (error) {
+    return { status: 'invalid' }
+  }
+}
+
+// Password-only (aal1) tokens of users with a second factor only exist mid
+// sign-in; neither pages nor the API accept them
+export const isSessionComplete = (user: SessionUser): boolean => {
+  return !user.mfaEnabled || user.aal === 'aal2'
+}
+
+// Verified user for API route handlers, which middleware does not cover.
+// Accepts the session cookie or an `Authorization: Bearer` access token.
+export const getSessionUser = async (request: NextRequest): Promise<SessionUser | null> => {
+  const authorization = request.headers.get('authorization')
+  const token = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+
+  if (!token) return null
+
+  const session = await verifySessionToken(token)
+  if (session.status !== 'valid') return null
+  if (!isSessionComplete(session.user)) return null
+
+  return session.user
+}
+
+// Email confirmation is not part of the token claims (user_metadata copies of it
+// can be edited by the user), so ask Supabase Auth directly. Costs a round trip;
+// only used for routes that require a verified email. Any failure counts as
+// unverified, so a Supabase outage sends users to the verify page, not a 500.
+export const isEmailVerified = async (accessToken: string): Promise<boolean> => {
+  const { url, anonKey } = getProviderConfig('supabase')
+  if (!url || !anonKey) return false
+
+  try {
+    const response = await fetch(`${url}/auth/v1/user`, {
+      headers: {
+        apikey: anonKey,
+        Authorization: `Bearer ${accessToken}`
+      }
+    })
+    if (!response.ok) return false
+
+    const user = await response.json()
+    return !!user.email_confirmed_at
+  } catch (error) {
+    console.error('Error checking email verification:', error)
+    return false
+  }
+}
+
+// Only follow same-origin relative paths after sign-in, never absolute URLs
+export const getSafeRedirectPath = (path: string | null | undefined, fallback = '/') => {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+    return fallback
+  }
+  return path
+}
+
+// Session cookies
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/'
+}
+
+export const setSessionCookies = (
+  response: NextResponse,
+  session: { accessToken: string; refreshToken: string; expiresIn: number }
+) => {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, session.accessToken, {
+    ...sessionCookieOptions,
+    maxAge: session.expiresIn
+  })
+  response.cookies.set(REFRESH_TOKEN_COOKIE, session.refreshToken, {
+    ...sessionCookieOptions,
+    maxAge: REFRESH_TOKEN_MAX_AGE
+  })
+}
+
+export const clearSessionCookies = (response: NextResponse) => {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 })
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 })
+}
+
+// Both session cookies, for routes that act on the user's behalf
+export const getSessionTokens = (request: NextRequest) => {
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+  return accessToken && refreshToken ? { accessToken, refreshToken } : null
+}
+
+export interface PendingMfaSession {
+  accessToken: string
+  refreshToken: string
+  factorId: string
+}
+
+// The pending session is sealed with AES-GCM so the password-only tokens are
+// never readable in the browser. The key comes from SESSION_SECRET, or the
+// Supabase JWT secret; without either (mock auth in development) a random
+// per-process key is used, so pending sign-ins don't survive a restart.
+let pendingKey: Promise<CryptoKey> | null = null
+
+const getPendingKey = () => {
+  if (!pendingKey) {
+    const secret = process.env.SESSION_SECRET || getJwtSecret()
+    const material = secret
+      ? crypto.subtle.digest('SHA-256', encoder.encode(`${MFA_PENDING_COOKIE}:${secret}`))
+      : Promise.resolve(crypto.getRandomValues(new Uint8Array(32)).buffer)
+
+    pendingKey = material.then((raw) => {
+      return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+    })
+  }
+  return pendingKey
+}
+
+// The cookie name is authenticated too, so a value sealed for another purpose is rejected
+const PENDING_ADDITIONAL_DATA = encoder.encode(MFA_PENDING_COOKIE)
+
+export const setMfaPendingCookie = async (response: NextResponse, pending: PendingMfaSession) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const payload = encoder.encode(JSON.stringify({
+    ...pending,
+    expiresAt: Date.now() + MFA_PENDING_MAX_AGE * 1000
+  }))
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: PENDING_ADDITIONAL_DATA },
+    await getPendingKey(),
+    payload
+  )
+
+  response.cookies.set(MFA_PENDING_COOKIE, `${base64UrlEncode(iv)}.${base64UrlEncode(new Uint8Array(sealed))}`, {
+    ...sessionCookieOptions,
+    maxAge: MFA_PENDING_MAX_AGE
+  })
+}
+
+export const readMfaPendingCookie = async (value: string | undefined): Promise<PendingMfaSession | null> => {
+  if (!value) return null
+
+  const [iv, sealed] = value.split('.')
+  if (!iv || !sealed) return null
+
+  try {
+    const payload = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64UrlDecode(iv), additionalData: PENDING_ADDITIONAL_DATA },
+      await getPendingKey(),
+      base64UrlDecode(sealed)
+    )
+    const pending = JSON.parse(new TextDecoder().decode(payload))
+
+    // The cookie's max age is only a hint to the browser; the sealed expiry is enforced
+    if (typeof pending.expiresAt !== 'number' || pending.expiresAt <= Date.now()) return null
+    if (!pending.accessToken || !pending.refreshToken || !pending.factorId) return null
+
+    return {
+      accessToken: pending.accessToken,
+      refreshToken: pending.refreshToken,
+      factorId: pending.factorId
+    }
+  } catch (error) {
+    // Tampered with, or sealed with another key
+    return null
+  }
+}
+
+export const clearMfaPendingCookie = (response: NextResponse) => {
+  response.cookies.set(MFA_PENDING_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 })
+}
+
+// Where sign-ins that end in a redirect (OAuth, magic links, email
+// confirmation) send the browser when the second factor is still due
+export const getMfaStepUrl = (redirect: string) => {
+  const mfaUrl = new URL('/auth/mfa', config.app.url)
+  mfaUrl.searchParams.set('redirect', redirect)
+  return mfaUrl
+}
@@ -1,4 +1,5 @@
 import Stripe from 'stripe'
+import { processStripeEvent } from './webhooks'
 
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -9,55 +10,46 @@ export const getStripePublishableKey = () => {
   return process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!
 }
 
-// Stripe webhook handler
+// Stripe webhook handler. Pass the request untouched: the signature
+// is computed over the raw body, so it must not be parsed first.
 export const handleStripeWebhook = async (req: Request) => {
   const body = await req.text()
-  const signature = req.headers.get('stripe-signature')!
+  const signature = req.headers.get('stripe-signature')
 
+  if (!signature) {
+    return new Response(JSON.stringify({ error: 'Missing stripe-signature header' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  let event: Stripe.Event
   try {
-    const event = stripe.webhooks.constructEvent(
+    event = stripe.webhooks.constructEvent(
       body,
       signature,
       process.env.STRIPE_WEBHOOK_SECRET!
     )
+  } catch (error) {
+    console.error('Webhook signature error:', error)
+    return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
 
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        const paymentIntent = event.data.object as Stripe.PaymentIntent
-        // Handle successful payment
-        console.log('Payment succeeded:', paymentIntent.id)
-        break
-      
-      case 'customer.subscription.created':
-        const subscription = event.data.object as Stripe.Subscription
-        // Handle new subscription
-        console.log('Subscription created:', subscription.id)
-        break
-      
-      case 'customer.subscription.updated':
-        const updatedSubscription = event.data.object as Stripe.Subscription
-        // Handle subscription update
-        console.log('Subscription updated:', updatedSubscription.id)
-        break
-      
-      case 'customer.subscription.deleted':
-        const deletedSubscription = event.data.object as Stripe.Subscription
-        // Handle subscription cancellation
-        console.log('Subscription deleted:', deletedSubscription.id)
-        break
-      
-      default:
-        console.log(`Unhandled event type: ${event.type}`)
-    }
+  try {
+    const result = await processStripeEvent(event)
 
-    return new Response(JSON.stringify({ received: true }), {
+    return new Response(JSON.stringify({ received: true, result }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     })
   } catch (error) {
+    // A non-2xx response makes Stripe retry the delivery later
     console.error('Webhook error:', error)
     return new Response(JSON.stringify({ error: 'Webhook error' }), {
-      status: 400,
+      status: 500,
       headers: { 'Content-Type': 'application/json' },
     })
   }
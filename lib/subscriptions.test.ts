@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabaseFake as fake } from '../test/supabase'
+
+vi.mock('./supabase', async () => {
+  const { supabaseFake } = await import('../test/supabase')
+  return { supabase: supabaseFake.client, requireSupabaseAdmin: () => supabaseFake.client }
+})
+
+vi.mock('./payments', () => ({
+  payments: { createCustomer: vi.fn() }
+}))
+
+import { getOrCreateCustomer } from './subscriptions'
+import { payments } from './payments'
+
+const user = { id: 'user_1', email: 'user@example.com', name: 'User' }
+
+beforeEach(() => {
+  fake.reset()
+  vi.mocked(payments.createCustomer).mockReset()
+  vi.mocked(payments.createCustomer).mockResolvedValue({ id: 'cus_new', email: user.email, name: user.name, created: '2026-10-19T00:00:00.000Z' })
+})
+
+describe('getOrCreateCustomer', () => {
+  it('returns the stored customer without creating another', async () => {
+    fake.queue('customers', { data: { stripe_customer_id: 'cus_existing' } })
+
+    await expect(getOrCreateCustomer(user)).resolves.toBe('cus_existing')
+    expect(payments.createCustomer).not.toHaveBeenCalled()
+  })
+
+  it('creates the customer with a key derived from the user', async () => {
+    fake.queue('customers', { data: null }, {}, { data: { stripe_customer_id: 'cus_new' } })
+
+    await expect(getOrCreateCustomer(user)).resolves.toBe('cus_new')
+    expect(payments.createCustomer).toHaveBeenCalledWith(user.email, user.name, 'customer-user_1')
+    expect(fake.callsTo('customers', 'upsert')[0].args).toEqual([
+      { user_id: 'user_1', stripe_customer_id: 'cus_new', email: user.email },
+      { onConflict: 'user_id', ignoreDuplicates: true }
+    ])
+  })
+
+  it('keeps the customer stored by a concurrent first payment', async () => {
+    fake.queue('customers', { data: null }, {}, { data: { stripe_customer_id: 'cus_first' } })
+
+    await expect(getOrCreateCustomer(user)).resolves.toBe('cus_first')
+  })
+})
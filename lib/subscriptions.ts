@@ -0,0 +1,88 @@
+/**
+ * Billing State
+ *
+ * Server-side access to the customers and subscriptions tables.
+ * Stripe stays the source of truth: subscription rows are written by the
+ * payments webhook, and this module reads them back per user.
+ */
+
+import { requireSupabaseAdmin } from './supabase'
+import { payments, type Subscription } from './payments'
+
+// Statuses that still grant access to the paid plan.
+// past_due keeps access while Stripe retries the failed payment.
+export const ACTIVE_SUBSCRIPTION_STATUSES: Subscription['status'][] = ['active', 'trialing', 'past_due']
+
+const getClient = () => requireSupabaseAdmin('manage customers and subscriptions')
+
+const toSubscription = (row: any): Subscription => {
+  return {
+    id: row.id,
+    status: row.status,
+    priceId: row.price_id ?? undefined,
+    itemId: row.item_id ?? undefined,
+    customerId: row.customer_id,
+    currentPeriodStart: row.current_period_start,
+    currentPeriodEnd: row.current_period_end,
+    cancelAtPeriodEnd: row.cancel_at_period_end,
+    trialEnd: row.trial_end ?? undefined
+  }
+}
+
+export const getCustomerId = async (userId: string): Promise<string | null> => {
+  const { data, error } = await getClient()
+    .from('customers')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.stripe_customer_id ?? null
+}
+
+export const getUserIdForCustomer = async (customerId: string): Promise<string | null> => {
+  const { data, error } = await getClient()
+    .from('customers')
+    .select('user_id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.user_id ?? null
+}
+
+// Each user gets one payment customer, created the first time they pay.
+// Concurrent first payments share the provider customer through the
+// idempotency key, and whichever row is stored first wins.
+export const getOrCreateCustomer = async (user: { id: string; email: string; name?: string }): Promise<string> => {
+  const existing = await getCustomerId(user.id)
+  if (existing) return existing
+
+  const customer = await payments.createCustomer(user.email, user.name, `customer-${user.id}`)
+
+  const { error } = await getClient()
+    .from('customers')
+    .upsert({
+      user_id: user.id,
+      stripe_customer_id: customer.id,
+      email: user.email
+    }, { onConflict: 'user_id', ignoreDuplicates: true })
+
+  if (error) throw error
+  return (await getCustomerId(user.id)) ?? customer.id
+}
+
+// The user's current paid subscription, or null on the free plan
+export const getActiveSubscription = async (userId: string): Promise<Subscription | null> => {
+  const { data, error } = await getClient()
+    .from('subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ACTIVE_SUBSCRIPTION_STATUSES)
+    .order('current_period_end', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toSubscription(data) : null
+}
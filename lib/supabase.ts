@@ -5,6 +5,47 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+// Service role client for trusted server-side work that bypasses RLS.
+// Only available when SUPABASE_SERVICE_ROLE_KEY is set; never import it client-side.
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const supabaseAdmin = supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    })
+  : null
+
+// The service role client for server code that works without a user session or
+// writes what RLS keeps from users. There is deliberately no anon fallback: RLS
+// and the function grants would reject its requests in confusing ways.
+export const requireSupabaseAdmin = (purpose: string) => {
+  if (!supabaseAdmin) {
+    throw new Error(`SUPABASE_SERVICE_ROLE_KEY is required to ${purpose}`)
+  }
+  return supabaseAdmin
+}
+
+// Client that keeps its session in memory only, for server-side auth calls
+// that act on behalf of one user (e.g. completing a password reset).
+// Pass `items` to read or seed auth storage, such as the PKCE code verifier.
+export const AUTH_STORAGE_KEY = 'xion-auth'
+
+export const createAuthClient = (items: Record<string, string> = {}) => {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      flowType: 'pkce',
+      storageKey: AUTH_STORAGE_KEY,
+      storage: {
+        getItem: (key) => items[key] ?? null,
+        setItem: (key, value) => { items[key] = value },
+        removeItem: (key) => { delete items[key] }
+      },
+      autoRefreshToken: false,
+      detectSessionInUrl: false
+    }
+  })
+}
+
 // Database types (auto-generated from Supabase)
 export type Database = {
   public: {
@@ -42,6 +83,10 @@ export type Database = {
           description: string | null
           price: number
           image_url: string | null
+          currency: string
+          active: boolean
+          track_inventory: boolean
+          stock_quantity: number
           created_at: string
           updated_at: string
         }
@@ -51,6 +96,10 @@ export type Database = {
           description?: string | null
           price: number
           image_url?: string | null
+          currency?: string
+          active?: boolean
+          track_inventory?: boolean
+          stock_quantity?: number
           created_at?: string
           updated_at?: string
         }
@@ -60,6 +109,10 @@ export type Database = {
           description?: string | null
           price?: number
           image_url?: string | null
+          currency?: string
+          active?: boolean
+          track_inventory?: boolean
+          stock_quantity?: number
           created_at?: string
           updated_at?: string
         }
@@ -67,44 +120,519 @@ export type Database = {
       orders: {
         Row: {
           id: string
-          user_id: string
-          product_id: string
-          quantity: number
+          // Null for guest checkouts
+          user_id: string | null
+          // Set on orders created before order_items; newer orders list products there
+          product_id: string | null
+          quantity: number | null
           total: number
-          status: 'pending' | 'completed' | 'cancelled'
+          currency: string
+          status: 'pending' | 'paid' | 'fulfilled' | 'completed' | 'cancelled' | 'refunded' | 'partially_refunded'
           stripe_payment_intent_id: string | null
+          // Charged after discounts, in major units; set when the order is paid
+          amount_paid: number | null
+          // Cart token or address behind a guest order, for the pending order cap
+          guest_key: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
-          user_id: string
-          product_id: string
-          quantity: number
+          user_id?: string | null
+          product_id?: string | null
+          quantity?: number | null
           total: number
-          status?: 'pending' | 'completed' | 'cancelled'
+          currency?: string
+          status?: 'pending' | 'paid' | 'fulfilled' | 'completed' | 'cancelled' | 'refunded' | 'partially_refunded'
           stripe_payment_intent_id?: string | null
+          amount_paid?: number | null
+          guest_key?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          user_id?: string | null
+          product_id?: string | null
+          quantity?: number | null
+          total?: number
+          currency?: string
+          status?: 'pending' | 'paid' | 'fulfilled' | 'completed' | 'cancelled' | 'refunded' | 'partially_refunded'
+          stripe_payment_intent_id?: string | null
+          amount_paid?: number | null
+          guest_key?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      order_items: {
+        Row: {
+          id: string
+          order_id: string
+          product_id: string | null
+          product_name: string
+          quantity: number
+          unit_price: number
+          currency: string
+          line_total: number
+          stock_reserved: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          product_id?: string | null
+          product_name: string
+          quantity: number
+          unit_price: number
+          currency: string
+          line_total: number
+          stock_reserved?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          unit_price?: number
+          currency?: string
+          line_total?: number
+          stock_reserved?: boolean
+          created_at?: string
+        }
+      }
+      order_status_history: {
+        Row: {
+          id: string
+          order_id: string
+          from_status: string | null
+          to_status: string
+          actor_id: string | null
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          from_status?: string | null
+          to_status: string
+          actor_id?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          from_status?: string | null
+          to_status?: string
+          actor_id?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+      }
+      customers: {
+        Row: {
+          user_id: string
+          stripe_customer_id: string
+          email: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          stripe_customer_id: string
+          email: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
           user_id?: string
+          stripe_customer_id?: string
+          email?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      subscriptions: {
+        Row: {
+          id: string
+          user_id: string | null
+          customer_id: string
+          status: string
+          price_id: string | null
+          item_id: string | null
+          quantity: number
+          current_period_start: string | null
+          current_period_end: string | null
+          cancel_at_period_end: boolean
+          canceled_at: string | null
+          trial_end: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          user_id?: string | null
+          customer_id: string
+          status: string
+          price_id?: string | null
+          item_id?: string | null
+          quantity?: number
+          current_period_start?: string | null
+          current_period_end?: string | null
+          cancel_at_period_end?: boolean
+          canceled_at?: string | null
+          trial_end?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          customer_id?: string
+          status?: string
+          price_id?: string | null
+          item_id?: string | null
+          quantity?: number
+          current_period_start?: string | null
+          current_period_end?: string | null
+          cancel_at_period_end?: boolean
+          canceled_at?: string | null
+          trial_end?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      stripe_events: {
+        Row: {
+          id: string
+          type: string
+          processed_at: string
+        }
+        Insert: {
+          id: string
+          type: string
+          processed_at?: string
+        }
+        Update: {
+          id?: string
+          type?: string
+          processed_at?: string
+        }
+      }
+      coupons: {
+        Row: {
+          id: string
+          code: string
+          percent_off: number | null
+          amount_off: number | null
+          currency: string | null
+          minimum_amount: number | null
+          active: boolean
+          expires_at: string | null
+          max_redemptions: number | null
+          times_redeemed: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          percent_off?: number | null
+          amount_off?: number | null
+          currency?: string | null
+          minimum_amount?: number | null
+          active?: boolean
+          expires_at?: string | null
+          max_redemptions?: number | null
+          times_redeemed?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          percent_off?: number | null
+          amount_off?: number | null
+          currency?: string | null
+          minimum_amount?: number | null
+          active?: boolean
+          expires_at?: string | null
+          max_redemptions?: number | null
+          times_redeemed?: number
+          created_at?: string
+        }
+      }
+      refunds: {
+        Row: {
+          id: string
+          order_id: string
+          payment_intent_id: string
+          amount: number
+          currency: string
+          status: string
+          reason: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          order_id: string
+          payment_intent_id: string
+          amount: number
+          currency: string
+          status: string
+          reason?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          payment_intent_id?: string
+          amount?: number
+          currency?: string
+          status?: string
+          reason?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      usage_records: {
+        Row: {
+          id: string
+          user_id: string
+          subscription_id: string
+          subscription_item_id: string
+          quantity: number
+          recorded_at: string
+          pushed_at: string | null
+          // Set while a push run has claimed the row
+          pushing_at: string | null
+          push_key: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          subscription_id: string
+          subscription_item_id: string
+          quantity: number
+          recorded_at?: string
+          pushed_at?: string | null
+          pushing_at?: string | null
+          push_key?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          subscription_id?: string
+          subscription_item_id?: string
+          quantity?: number
+          recorded_at?: string
+          pushed_at?: string | null
+          pushing_at?: string | null
+          push_key?: string | null
+          created_at?: string
+        }
+      }
+      carts: {
+        Row: {
+          id: string
+          user_id: string | null
+          guest_token: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          guest_token?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          guest_token?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      cart_items: {
+        Row: {
+          id: string
+          cart_id: string
+          product_id: string
+          quantity: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          cart_id: string
+          product_id: string
+          quantity: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          cart_id?: string
           product_id?: string
           quantity?: number
-          total?: number
-          status?: 'pending' | 'completed' | 'cancelled'
-          stripe_payment_intent_id?: string | null
           created_at?: string
           updated_at?: string
         }
       }
+      invoices: {
+        Row: {
+          id: string
+          order_id: string
+          number: string
+          tax_rate: number
+          issued_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          number: string
+          tax_rate?: number
+          issued_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          number?: string
+          tax_rate?: number
+          issued_at?: string
+        }
+      }
+      invoice_counter: {
+        Row: {
+          id: boolean
+          last_number: number
+        }
+        Insert: {
+          id?: boolean
+          last_number?: number
+        }
+        Update: {
+          id?: boolean
+          last_number?: number
+        }
+      }
+      mfa_recovery_codes: {
+        Row: {
+          id: string
+          user_id: string
+          code_hash: string
+          used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          code_hash: string
+          used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          code_hash?: string
+          used_at?: string | null
+          created_at?: string
+        }
+      }
+      mfa_attempts: {
+        Row: {
+          id: string
+          factor_id: string
+          attempted_at: string
+        }
+        Insert: {
+          id?: string
+          factor_id: string
+          attempted_at?: string
+        }
+        Update: {
+          id?: string
+          factor_id?: string
+          attempted_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_usage_records: {
+        Args: {
+          p_limit: number
+          p_stale_after?: string
+        }
+        Returns: {
+          id: string
+          subscription_item_id: string
+          quantity: number
+          recorded_at: string
+          push_key: string
+        }[]
+      }
+      create_order: {
+        Args: {
+          p_user_id: string | null
+          p_items: { product_id: string; quantity: number }[]
+        }
+        Returns: string
+      }
+      issue_invoice: {
+        Args: {
+          p_order_id: string
+          p_tax_rate?: number
+        }
+        Returns: Database['public']['Tables']['invoices']['Row']
+      }
+      merge_guest_cart: {
+        Args: {
+          p_guest_token: string
+          p_user_id: string
+        }
+        Returns: string | null
+      }
+      redeem_coupon: {
+        Args: {
+          p_code: string
+        }
+        Returns: boolean
+      }
+      release_coupon: {
+        Args: {
+          p_code: string
+        }
+        Returns: undefined
+      }
+      release_order_stock: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      transition_order_status: {
+        Args: {
+          p_order_id: string
+          p_from: string
+          p_to: string
+          p_actor_id?: string | null
+          p_reason?: string | null
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabaseFake as fake } from '../test/supabase'
+
+vi.mock('./supabase', async () => {
+  const { supabaseFake } = await import('../test/supabase')
+  return { supabase: supabaseFake.client, requireSupabaseAdmin: () => supabaseFake.client }
+})
+
+vi.mock('./payments', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./payments')>(),
+  payments: { recordUsage: vi.fn() }
+}))
+
+import { pushUsageRecords } from './usage'
+import { payments } from './payments'
+
+const claimedRows = [
+  { id: 'usage_1', subscription_item_id: 'si_1', quantity: 2, recorded_at: '2026-10-19T10:00:00.000Z', push_key: 'key_1' },
+  { id: 'usage_2', subscription_item_id: 'si_1', quantity: 3, recorded_at: '2026-10-19T11:00:00.000Z', push_key: 'key_1' }
+]
+
+beforeEach(() => {
+  fake.reset()
+  fake.client.rpc.mockResolvedValue({ data: claimedRows, error: null })
+  vi.mocked(payments.recordUsage).mockReset()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('pushUsageRecords', () => {
+  it('pushes each claimed batch under its push key and marks it pushed', async () => {
+    await expect(pushUsageRecords()).resolves.toEqual({ records: 2, quantity: 5, failedItems: [] })
+
+    expect(payments.recordUsage).toHaveBeenCalledWith('si_1', 5, new Date('2026-10-19T11:00:00.000Z'), 'key_1')
+    expect(fake.callsTo('usage_records', 'update')[0].args[0]).toHaveProperty('pushed_at')
+  })
+
+  it('releases a batch the provider rejected, to go out under a new key', async () => {
+    vi.mocked(payments.recordUsage).mockRejectedValue(Object.assign(new Error('No such subscription item'), { statusCode: 404 }))
+
+    await expect(pushUsageRecords()).resolves.toEqual({ records: 0, quantity: 0, failedItems: ['si_1'] })
+
+    expect(fake.callsTo('usage_records', 'update').map((call) => call.args[0])).toEqual([{ pushing_at: null, push_key: null }])
+  })
+
+  it('keeps the push key when the provider may have counted the usage', async () => {
+    vi.mocked(payments.recordUsage).mockRejectedValue(new Error('Request timed out'))
+
+    await expect(pushUsageRecords()).resolves.toEqual({ records: 0, quantity: 0, failedItems: ['si_1'] })
+
+    expect(fake.callsTo('usage_records', 'update')).toEqual([])
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Metered Usage
+ *
+ * Billable usage (e.g. API calls) lands in the usage_records table, one row
+ * per use against the user's subscription item, written by the metered
+ * service with the service role. Rows are pushed to the payment provider in
+ * batches, one call per subscription item, so a busy API doesn't make a
+ * provider call per request.
+ */
+
+import { requireSupabaseAdmin } from './supabase'
+import { isRejectedRequest, payments } from './payments'
+import { getActiveSubscription } from './subscriptions'
+
+// Unpushed rows read per run; anything left over goes out with the next one
+export const USAGE_PUSH_BATCH_SIZE = 1000
+
+const getClient = () => requireSupabaseAdmin('record usage')
+
+export interface UsageSummary {
+  subscriptionId: string
+  periodStart: string
+  periodEnd: string
+  quantity: number
+  // Part of quantity not yet reported to the payment provider
+  pendingQuantity: number
+}
+
+export interface UsagePushResult {
+  records: number
+  quantity: number
+  // Subscription items the provider rejected; their rows stay unpushed
+  failedItems: string[]
+}
+
+interface UsageBatch {
+  itemId: string
+  quantity: number
+  timestamp: string
+  records: number
+}
+
+// Usage in the subscription's current billing period, or null without a subscription
+export const getCurrentUsage = async (userId: string): Promise<UsageSummary | null> => {
+  const subscription = await getActiveSubscription(userId)
+  if (!subscription) return null
+
+  const { data, error } = await getClient()
+    .from('usage_records')
+    .select('quantity, pushed_at')
+    .eq('subscription_id', subscription.id)
+    .gte('recorded_at', subscription.currentPeriodStart)
+    .lt('recorded_at', subscription.currentPeriodEnd)
+
+  if (error) throw error
+
+  const rows = data || []
+  return {
+    subscriptionId: subscription.id,
+    periodStart: subscription.currentPeriodStart,
+    periodEnd: subscription.currentPeriodEnd,
+    quantity: rows.reduce((sum: number, row: any) => sum + row.quantity, 0),
+    pendingQuantity: rows
+      .filter((row: any) => !row.pushed_at)
+      .reduce((sum: number, row: any) => sum + row.quantity, 0)
+  }
+}
+
+// Report unpushed usage, summed per subscription item and stamped with its latest row.
+// Rows are claimed first, so concurrent runs never push the same usage, and each
+// push carries its push key as the provider's idempotency key.
+export const pushUsageRecords = async (batchSize = USAGE_PUSH_BATCH_SIZE): Promise<UsagePushResult> => {
+  const client = getClient()
+
+  const { data, error } = await client.rpc('claim_usage_records', { p_limit: batchSize })
+  if (error) throw error
+
+  const batches = new Map<string, UsageBatch>()
+  for (const row of data || []) {
+    const batch: UsageBatch = batches.get(row.push_key) || {
+      itemId: row.subscription_item_id,
+      records: 0,
+      quantity: 0,
+      timestamp: row.recorded_at
+    }
+    batch.records += 1
+    batch.quantity += row.quantity
+    if (new Date(row.recorded_at) > new Date(batch.timestamp)) batch.timestamp = row.recorded_at
+    batches.set(row.push_key, batch)
+  }
+
+  const result: UsagePushResult = { records: 0, quantity: 0, failedItems: [] }
+
+  for (const [pushKey, batch] of Array.from(batches.entries())) {
+    try {
+      await payments.recordUsage(batch.itemId, batch.quantity, new Date(batch.timestamp), pushKey)
+    } catch (error) {
+      console.error('Usage push error:', error)
+      result.failedItems.push(batch.itemId)
+
+      // Any other failure may have reached the provider, so the rows keep their
+      // key and the stale-claim reclaim retries them under it
+      if (!isRejectedRequest(error)) continue
+
+      // Rejected, so nothing was counted: release the rows to go out under a new key
+      const { error: releaseError } = await client
+        .from('usage_records')
+        .update({ pushing_at: null, push_key: null })
+        .eq('push_key', pushKey)
+        .is('pushed_at', null)
+
+      if (releaseError) throw releaseError
+      continue
+    }
+
+    const { error: updateError } = await client
+      .from('usage_records')
+      .update({ pushed_at: new Date().toISOString() })
+      .eq('push_key', pushKey)
+
+    if (updateError) throw updateError
+
+    result.records += batch.records
+    result.quantity += batch.quantity
+  }
+
+  return result
+}
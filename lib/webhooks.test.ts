@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type Stripe from 'stripe'
+import { supabaseFake as fake } from '../test/supabase'
+
+vi.mock('./supabase', async () => {
+  const { supabaseFake } = await import('../test/supabase')
+  return { requireSupabaseAdmin: () => supabaseFake.client }
+})
+
+vi.mock('./orders', () => ({ transitionOrder: vi.fn() }))
+vi.mock('./cart', () => ({ clearCart: vi.fn() }))
+vi.mock('./refunds', () => ({ recordRefund: vi.fn(), syncOrderRefundStatus: vi.fn() }))
+vi.mock('./subscriptions', () => ({ getUserIdForCustomer: vi.fn() }))
+
+import { processStripeEvent } from './webhooks'
+import { transitionOrder } from './orders'
+import { clearCart } from './cart'
+
+const event = (type: string, object: Record<string, any>, id = 'evt_1') => ({
+  id,
+  type,
+  data: { object }
+}) as unknown as Stripe.Event
+
+const completedSession = (overrides: Record<string, any> = {}) => ({
+  id: 'cs_1',
+  created: 1760000000,
+  payment_status: 'paid',
+  payment_intent: 'pi_1',
+  amount_subtotal: 2500,
+  amount_total: 2000,
+  currency: 'usd',
+  metadata: { order_id: 'order_1' },
+  ...overrides
+})
+
+const paymentIntent = (overrides: Record<string, any> = {}) => ({
+  id: 'pi_1',
+  amount: 2500,
+  amount_received: 2500,
+  currency: 'usd',
+  status: 'succeeded',
+  metadata: { order_id: 'order_1' },
+  ...overrides
+})
+
+const pendingOrder = { id: 'order_1', status: 'pending', total: 25, currency: 'usd' }
+
+beforeEach(() => {
+  fake.reset()
+  vi.mocked(transitionOrder).mockReset()
+  vi.mocked(clearCart).mockReset()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('processStripeEvent', () => {
+  it('marks the order paid', async () => {
+    fake.queue('orders', { data: pendingOrder })
+
+    await expect(processStripeEvent(event('checkout.session.completed', completedSession())))
+      .resolves.toBe('processed')
+
+    const [update] = fake.callsTo('orders', 'update')
+    expect(update.args[0]).toMatchObject({ stripe_payment_intent_id: 'pi_1' })
+    expect(transitionOrder).toHaveBeenCalledWith('order_1', 'paid', { reason: 'Payment received' }, fake.client)
+  })
+
+  it('records what was charged after the discount', async () => {
+    fake.queue('orders', { data: pendingOrder })
+
+    await processStripeEvent(event('checkout.session.completed', completedSession()))
+
+    const [update] = fake.callsTo('orders', 'update')
+    expect(update.args[0]).toEqual({ stripe_payment_intent_id: 'pi_1', amount_paid: 20 })
+  })
+
+  it('acknowledges a repeated delivery without applying it again', async () => {
+    fake.queue('stripe_events', { error: { code: '23505', message: 'duplicate key' } })
+
+    await expect(processStripeEvent(event('checkout.session.completed', completedSession())))
+      .resolves.toBe('duplicate')
+
+    expect(fake.client.from).not.toHaveBeenCalledWith('orders')
+    expect(transitionOrder).not.toHaveBeenCalled()
+  })
+
+  it('releases the event id when applying it fails, so a retry can run', async () => {
+    fake.queue('orders', { data: pendingOrder })
+    vi.mocked(transitionOrder).mockRejectedValue(new Error('database unavailable'))
+
+    await expect(processStripeEvent(event('checkout.session.completed', completedSession())))
+      .rejects.toThrow('database unavailable')
+
+    expect(fake.callsTo('stripe_events', 'delete')).toHaveLength(1)
+    expect(fake.callsTo('stripe_events', 'eq')[0].args).toEqual(['id', 'evt_1'])
+  })
+
+  it('leaves the order pending when the charge does not match its total', async () => {
+    fake.queue('orders', { data: pendingOrder })
+
+    await expect(processStripeEvent(event('checkout.session.completed', completedSession({ amount_subtotal: 100 }))))
+      .resolves.toBe('ignored')
+
+    expect(transitionOrder).not.toHaveBeenCalled()
+    expect(fake.callsTo('orders', 'update')).toHaveLength(0)
+  })
+
+  it('leaves the order pending when the currency does not match', async () => {
+    fake.queue('orders', { data: pendingOrder })
+
+    await expect(processStripeEvent(event('checkout.session.completed', completedSession({ currency: 'eur' }))))
+      .resolves.toBe('ignored')
+
+    expect(transitionOrder).not.toHaveBeenCalled()
+  })
+
+  it('ignores orders that are no longer pending', async () => {
+    fake.queue('orders', { data: { ...pendingOrder, status: 'paid' } })
+
+    await expect(processStripeEvent(event('checkout.session.async_payment_succeeded', completedSession())))
+      .resolves.toBe('ignored')
+
+    expect(transitionOrder).not.toHaveBeenCalled()
+  })
+
+  it('waits for delayed payment methods to succeed', async () => {
+    await expect(processStripeEvent(event('checkout.session.completed', completedSession({ payment_status: 'unpaid' }))))
+      .resolves.toBe('ignored')
+
+    expect(fake.client.from).not.toHaveBeenCalledWith('orders')
+  })
+
+  it('only matches orders by the order id in the metadata', async () => {
+    await expect(processStripeEvent(event('checkout.session.completed', completedSession({ metadata: {} }))))
+      .resolves.toBe('ignored')
+
+    expect(fake.client.from).not.toHaveBeenCalledWith('orders')
+  })
+
+  it('empties the checked-out cart, keeping lines changed after the checkout started', async () => {
+    fake.queue('orders', { data: pendingOrder })
+
+    await processStripeEvent(event('checkout.session.completed', completedSession({
+      metadata: { order_id: 'order_1', cart_id: 'cart_1' }
+    })))
+
+    expect(clearCart).toHaveBeenCalledWith('cart_1', new Date(1760000000 * 1000))
+  })
+
+  it('cancels the pending order of an expired checkout', async () => {
+    fake.queue('orders', { data: pendingOrder })
+
+    await expect(processStripeEvent(event('checkout.session.expired', completedSession({ payment_status: 'unpaid' }))))
+      .resolves.toBe('processed')
+
+    expect(transitionOrder).toHaveBeenCalledWith('order_1', 'cancelled', { reason: 'Checkout expired' }, fake.client)
+  })
+
+  it('marks an order paid from a payment intent created without Checkout', async () => {
+    fake.queue('orders', { data: pendingOrder })
+
+    await expect(processStripeEvent(event('payment_intent.succeeded', paymentIntent())))
+      .resolves.toBe('processed')
+
+    const [update] = fake.callsTo('orders', 'update')
+    expect(update.args[0]).toEqual({ stripe_payment_intent_id: 'pi_1', amount_paid: 25 })
+    expect(transitionOrder).toHaveBeenCalledWith('order_1', 'paid', { reason: 'Payment received' }, fake.client)
+  })
+
+  it('leaves the order pending when a payment intent does not cover its total', async () => {
+    fake.queue('orders', { data: pendingOrder }, { data: pendingOrder })
+
+    await expect(processStripeEvent(event('payment_intent.succeeded', paymentIntent({ amount_received: 2000 }))))
+      .resolves.toBe('ignored')
+    await expect(processStripeEvent(event('payment_intent.succeeded', paymentIntent({ currency: 'eur' }), 'evt_2')))
+      .resolves.toBe('ignored')
+
+    expect(fake.callsTo('orders', 'update')).toHaveLength(0)
+    expect(transitionOrder).not.toHaveBeenCalled()
+  })
+
+  it('leaves Checkout payment intents to the checkout session events', async () => {
+    const checkoutPayment = paymentIntent({ amount_received: 2000, metadata: { order_id: 'order_1', source: 'checkout' } })
+
+    await expect(processStripeEvent(event('payment_intent.succeeded', checkoutPayment))).resolves.toBe('ignored')
+
+    expect(fake.client.from).not.toHaveBeenCalledWith('orders')
+  })
+
+  it('ignores payment intents without an order id', async () => {
+    await expect(processStripeEvent(event('payment_intent.succeeded', paymentIntent({ metadata: {} }))))
+      .resolves.toBe('ignored')
+
+    expect(fake.client.from).not.toHaveBeenCalledWith('orders')
+  })
+
+  it('ignores events it does not handle', async () => {
+    await expect(processStripeEvent(event('invoice.created', {}))).resolves.toBe('ignored')
+  })
+})
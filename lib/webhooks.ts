@@ -0,0 +1,260 @@
+/**
+ * Payment Webhook Processing
+ *
+ * Applies Stripe events to the database: marks orders as paid, empties
+ * checked-out carts, records refunds and keeps the subscriptions table in
+ * sync. The mock payment provider sends its simulated events through here
+ * too. Each event id is recorded before it is applied, so a repeated
+ * delivery is acknowledged without running twice.
+ */
+
+import type Stripe from 'stripe'
+import { requireSupabaseAdmin } from './supabase'
+import { getUserIdForCustomer } from './subscriptions'
+import { recordRefund, syncOrderRefundStatus } from './refunds'
+import { transitionOrder } from './orders'
+import { clearCart } from './cart'
+import { fromMinorUnits, normalizeCurrency, toMinorUnits } from './money'
+import { CHECKOUT_PAYMENT_METADATA, type Refund } from './payments'
+
+export type WebhookResult = 'processed' | 'duplicate' | 'ignored'
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+// Stripe expands some references into objects; we only need the id
+const getId = (value: string | { id: string } | null | undefined): string | null => {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+const toIsoString = (timestamp: number | null | undefined): string | null => {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : null
+}
+
+const getAdminClient = () => requireSupabaseAdmin('process payment webhooks')
+
+// A successful checkout session or payment intent, in minor units
+interface OrderPayment {
+  // Checkout session or payment intent id, for the logs
+  reference: string
+  orderId: string | null | undefined
+  currency: string | null
+  // What the order's lines came to, before any discount
+  amountDue: number | null
+  // What the customer was actually charged
+  amountCharged: number | null
+  paymentIntentId: string | null
+}
+
+// Mark the payment's pending order as paid. Orders are matched only by the
+// order_id the server put in the payment's metadata, and only if the payment
+// covers the order's total (before discounts) in its currency.
+const markOrderPaid = async (payment: OrderPayment): Promise<WebhookResult> => {
+  const { orderId } = payment
+  if (!orderId) return 'ignored'
+
+  const client = getAdminClient()
+  const { data: order, error } = await client
+    .from('orders')
+    .select('id, status, total, currency')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  // Already paid (e.g. the async payment event after the completed event)
+  if (!order || order.status !== 'pending') return 'ignored'
+
+  const currency = normalizeCurrency(order.currency)
+  if (
+    normalizeCurrency(payment.currency) !== currency ||
+    payment.amountDue !== toMinorUnits(Number(order.total), currency)
+  ) {
+    // Leave the order pending for someone to look at rather than fulfil a mismatched payment
+    console.error(
+      `Payment ${payment.reference} covered ${payment.amountDue} ${payment.currency} ` +
+      `for order ${order.id}, which totals ${order.total} ${order.currency}`
+    )
+    return 'ignored'
+  }
+
+  // Discounts make the charge smaller than the total; refunds are capped at the charge
+  const { error: updateError } = await client
+    .from('orders')
+    .update({
+      stripe_payment_intent_id: payment.paymentIntentId,
+      amount_paid: fromMinorUnits(payment.amountCharged ?? payment.amountDue!, currency)
+    })
+    .eq('id', order.id)
+
+  if (updateError) throw updateError
+
+  await transitionOrder(order.id, 'paid', { reason: 'Payment received' }, client)
+  return 'processed'
+}
+
+// An abandoned checkout gives back the stock its pending order reserved
+const cancelExpiredOrder = async (orderId: string | null | undefined): Promise<WebhookResult> => {
+  if (!orderId) return 'ignored'
+
+  const client = getAdminClient()
+  const { data: order, error } = await client
+    .from('orders')
+    .select('id, status')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!order || order.status !== 'pending') return 'ignored'
+
+  await transitionOrder(order.id, 'cancelled', { reason: 'Checkout expired' }, client)
+  return 'processed'
+}
+
+const syncSubscription = async (subscription: Stripe.Subscription): Promise<WebhookResult> => {
+  const item = subscription.items.data[0]
+  const customerId = getId(subscription.customer)!
+
+  const row: Record<string, any> = {
+    id: subscription.id,
+    customer_id: customerId,
+    status: subscription.status,
+    price_id: item?.price.id ?? null,
+    item_id: item?.id ?? null,
+    quantity: item?.quantity ?? 1,
+    current_period_start: toIsoString(subscription.current_period_start),
+    current_period_end: toIsoString(subscription.current_period_end),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    canceled_at: toIsoString(subscription.canceled_at),
+    trial_end: toIsoString(subscription.trial_end),
+    updated_at: new Date().toISOString()
+  }
+
+  // Only set the owner when it can be resolved, so later events don't clear it
+  const userId = subscription.metadata?.user_id || await getUserIdForCustomer(customerId)
+  if (userId) {
+    row.user_id = userId
+  }
+
+  const { error } = await getAdminClient()
+    .from('subscriptions')
+    .upsert(row, { onConflict: 'id' })
+
+  if (error) throw error
+  return 'processed'
+}
+
+// Mirror every refund on the charge, including ones issued from the Stripe dashboard
+const syncChargeRefunds = async (charge: Stripe.Charge): Promise<WebhookResult> => {
+  const paymentIntentId = getId(charge.payment_intent)
+  if (!paymentIntentId) return 'ignored'
+
+  const { data: order, error } = await getAdminClient()
+    .from('orders')
+    .select('id, total, amount_paid, currency, status')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!order) return 'ignored'
+
+  // Stripe charges no longer embed their refunds, so list them; mock events still include them
+  let refunds = charge.refunds?.data
+  if (!refunds) {
+    const { stripe } = require('./stripe')
+    refunds = (await stripe.refunds.list({ charge: charge.id, limit: 100 })).data as Stripe.Refund[]
+  }
+
+  for (const refund of refunds) {
+    await recordRefund(order.id, {
+      id: refund.id,
+      paymentIntentId,
+      amount: fromMinorUnits(refund.amount, refund.currency),
+      currency: refund.currency,
+      status: refund.status as Refund['status']
+    }, { reason: refund.reason })
+  }
+
+  await syncOrderRefundStatus(order)
+  return 'processed'
+}
+
+const applyEvent = async (event: Stripe.Event): Promise<WebhookResult> => {
+  switch (event.type) {
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object as Stripe.Checkout.Session
+      // Delayed payment methods complete the session before the money arrives
+      if (session.payment_status === 'unpaid') return 'ignored'
+      const result = await markOrderPaid({
+        reference: session.id,
+        orderId: session.metadata?.order_id,
+        currency: session.currency,
+        amountDue: session.amount_subtotal,
+        amountCharged: session.amount_total,
+        paymentIntentId: getId(session.payment_intent)
+      })
+
+      // Lines changed after the checkout started were not paid for, so they stay
+      const cartId = session.metadata?.cart_id
+      if (!cartId) return result
+      await clearCart(cartId, new Date(session.created * 1000))
+      return 'processed'
+    }
+
+    // Orders paid with a payment intent the server created directly, without Checkout
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+      // Checkout's own payment intents don't know about its discounts; its session events settle those orders
+      if (paymentIntent.metadata?.source === CHECKOUT_PAYMENT_METADATA.source) return 'ignored'
+
+      return markOrderPaid({
+        reference: paymentIntent.id,
+        orderId: paymentIntent.metadata?.order_id,
+        currency: paymentIntent.currency,
+        amountDue: paymentIntent.amount_received,
+        amountCharged: paymentIntent.amount_received,
+        paymentIntentId: paymentIntent.id
+      })
+    }
+
+    case 'checkout.session.expired': {
+      const session = event.data.object as Stripe.Checkout.Session
+      return cancelExpiredOrder(session.metadata?.order_id)
+    }
+
+    case 'charge.refunded':
+      return syncChargeRefunds(event.data.object as Stripe.Charge)
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      return syncSubscription(event.data.object as Stripe.Subscription)
+
+    default:
+      return 'ignored'
+  }
+}
+
+export const processStripeEvent = async (event: Stripe.Event): Promise<WebhookResult> => {
+  const client = getAdminClient()
+
+  // Claim the event id; the primary key rejects a second delivery
+  const { error: claimError } = await client
+    .from('stripe_events')
+    .insert({ id: event.id, type: event.type })
+
+  if (claimError) {
+    if (claimError.code === UNIQUE_VIOLATION) return 'duplicate'
+    throw claimError
+  }
+
+  try {
+    return await applyEvent(event)
+  } catch (error) {
+    // Release the claim so Stripe's retry can apply the event
+    await client.from('stripe_events').delete().eq('id', event.id)
+    throw error
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('./lib/config', async () => {
+  const { TEST_JWT_SECRET } = await import('./test/session')
+  return {
+    config: {},
+    isFeatureEnabled: () => true,
+    isProviderEnabled: (provider: string) => provider === 'supabase',
+    getProviderConfig: () => ({
+      url: 'https://project.supabase.co',
+      anonKey: 'anon-key',
+      jwtSecret: TEST_JWT_SECRET
+    })
+  }
+})
+
+import { middleware } from './middleware'
+import { ACCESS_TOKEN_COOKIE, SESSION_HEADERS } from './lib/session'
+import { signToken } from './test/session'
+
+const now = Math.floor(Date.now() / 1000)
+
+const sessionToken = (overrides: Record<string, any> = {}, options?: { secret?: string }) => signToken({
+  sub: 'user_1',
+  email: 'user@example.com',
+  aud: 'authenticated',
+  iss: 'https://project.supabase.co/auth/v1',
+  exp: now + 3600,
+  aal: 'aal1',
+  app_metadata: { role: 'user' },
+  ...overrides
+}, options)
+
+const request = (path: string, token?: string, headers: Record<string, string> = {}) => {
+  const req = new NextRequest(`http://localhost${path}`, { headers })
+  if (token) req.cookies.set(ACCESS_TOKEN_COOKIE, token)
+  return req
+}
+
+// Headers middleware passes on to the page, as NextResponse.next({ request }) encodes them
+const forwardedHeader = (response: Response, name: string) => {
+  return response.headers.get(`x-middleware-request-${name}`)
+}
+
+describe('middleware', () => {
+  it('sends visitors without a session to the login page', async () => {
+    const response = await middleware(request('/dashboard'))
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toBe('http://localhost/auth/login?redirect=%2Fdashboard')
+  })
+
+  it('rejects a forged session cookie', async () => {
+    const token = await sessionToken({}, { secret: 'some-other-secret' })
+
+    const response = await middleware(request('/dashboard', token))
+
+    expect(response.headers.get('location')).toBe('http://localhost/auth/login?redirect=%2Fdashboard')
+  })
+
+  it('drops an expired session cookie on the way to the login page', async () => {
+    const response = await middleware(request('/settings', await sessionToken({ exp: now - 60 })))
+
+    expect(response.headers.get('location')).toBe('http://localhost/auth/login?redirect=%2Fsettings')
+    expect(response.cookies.get(ACCESS_TOKEN_COOKIE)?.value).toBe('')
+  })
+
+  it('passes the verified user downstream', async () => {
+    const response = await middleware(request('/dashboard', await sessionToken()))
+
+    expect(response.headers.get('location')).toBeNull()
+    expect(forwardedHeader(response, SESSION_HEADERS.userId)).toBe('user_1')
+    expect(forwardedHeader(response, SESSION_HEADERS.role)).toBe('user')
+  })
+
+  it('strips user headers sent by the client', async () => {
+    const response = await middleware(request('/pricing', undefined, {
+      [SESSION_HEADERS.userId]: 'someone_else',
+      [SESSION_HEADERS.role]: 'admin'
+    }))
+
+    expect(forwardedHeader(response, SESSION_HEADERS.userId)).toBeNull()
+    expect(forwardedHeader(response, SESSION_HEADERS.role)).toBeNull()
+  })
+
+  it('treats a password-only session of a user with two-factor authentication as signed out', async () => {
+    const token = await sessionToken({ aal: 'aal1', app_metadata: { role: 'user', mfa_enabled: true } })
+
+    for (const path of ['/dashboard', '/billing', '/settings', '/profile']) {
+      const response = await middleware(request(path, token))
+      expect(response.headers.get('location')).toBe(`http://localhost/auth/login?redirect=${encodeURIComponent(path)}`)
+    }
+  })
+
+  it('accepts the session once the second factor is verified', async () => {
+    const token = await sessionToken({ aal: 'aal2', app_metadata: { role: 'user', mfa_enabled: true } })
+
+    const response = await middleware(request('/dashboard', token))
+
+    expect(response.headers.get('location')).toBeNull()
+    expect(forwardedHeader(response, SESSION_HEADERS.aal)).toBe('aal2')
+  })
+
+  it('keeps users without admin access out of /admin', async () => {
+    const response = await middleware(request('/admin', await sessionToken()))
+
+    expect(response.headers.get('location')).toBe('http://localhost/dashboard')
+  })
+})
@@ -1,6 +1,14 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { config as appConfig, isFeatureEnabled, isProviderEnabled } from './lib/config'
+import {
+  ACCESS_TOKEN_COOKIE,
+  SESSION_HEADERS,
+  isEmailVerified,
+  isSessionComplete,
+  verifySessionToken
+} from './lib/session'
+import { hasPermission } from './lib/rbac'
 
 // Define protected routes
 const protectedRoutes = [
@@ -17,18 +25,34 @@ const publicRoutes = [
   '/auth/login',
   '/auth/signup',
   '/auth/reset-password',
+  '/auth/verify-email',
+  '/auth/mfa',
   '/pricing',
   '/features',
   '/docs',
   '/api/auth'
 ]
 
-// Define admin routes (require admin role)
+// Define admin routes (require the admin:access permission)
 const adminRoutes = [
   '/admin'
 ]
 
-export function middleware(request: NextRequest) {
+// Define routes that require a verified second factor (aal2 session)
+const mfaRoutes = [
+  '/admin'
+]
+
+// Define routes that require a confirmed email address
+const verifiedEmailRoutes = [
+  '/billing'
+]
+
+const matchesRoute = (pathname: string, route: string) => {
+  return pathname === route || pathname.startsWith(`${route}/`)
+}
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
 
   // Skip middleware for static files and API routes (except auth)
@@ -45,71 +69,102 @@ export function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
+  // Never trust user headers sent by the client
+  const requestHeaders = new Headers(request.headers)
+  Object.values(SESSION_HEADERS).forEach((header) => requestHeaders.delete(header))
+
   // Check if route is public
   const isPublicRoute = publicRoutes.some(route => 
-    pathname === route || pathname.startsWith(route)
+    route === '/' ? pathname === route : matchesRoute(pathname, route)
   )
 
   if (isPublicRoute) {
-    return NextResponse.next()
+    return NextResponse.next({ request: { headers: requestHeaders } })
   }
 
   // Check if route is protected
   const isProtectedRoute = protectedRoutes.some(route => 
-    pathname.startsWith(route)
+    matchesRoute(pathname, route)
   )
 
   if (isProtectedRoute) {
-    // Get user from session/token (implement based on your auth provider)
-    const user = getUserFromRequest(request)
+    const session = await getUserFromRequest(request)
     
-    if (!user) {
-      // Redirect to login
+    // A password-only session of a user with a second factor counts as signed out
+    if (session.status !== 'valid' || !isSessionComplete(session.user)) {
+      // Redirect to login, including when the session has expired
       const loginUrl = new URL('/auth/login', request.url)
       loginUrl.searchParams.set('redirect', pathname)
-      return NextResponse.redirect(loginUrl)
+      const response = NextResponse.redirect(loginUrl)
+
+      if (session.status === 'expired') {
+        response.cookies.delete(ACCESS_TOKEN_COOKIE)
+      }
+
+      return response
     }
 
+    const { user } = session
+
     // Check admin routes
     const isAdminRoute = adminRoutes.some(route => 
-      pathname.startsWith(route)
+      matchesRoute(pathname, route)
     )
 
-    if (isAdminRoute && user.role !== 'admin') {
+    if (isAdminRoute && !hasPermission(user.role, 'admin:access')) {
       // Redirect to dashboard if not admin
       return NextResponse.redirect(new URL('/dashboard', request.url))
     }
+
+    // Check assurance level
+    const isMfaRoute = mfaRoutes.some(route => 
+      matchesRoute(pathname, route)
+    )
+
+    if (isMfaRoute && user.aal !== 'aal2') {
+      // Send the user to set up (or re-verify) two-factor authentication
+      const securityUrl = new URL('/settings/security', request.url)
+      securityUrl.searchParams.set('redirect', pathname)
+      return NextResponse.redirect(securityUrl)
+    }
+
+    // Check email verification
+    const isVerifiedEmailRoute = verifiedEmailRoutes.some(route => 
+      matchesRoute(pathname, route)
+    )
+
+    if (isVerifiedEmailRoute && !(await isEmailVerified(request.cookies.get(ACCESS_TOKEN_COOKIE)!.value))) {
+      // Ask the user to follow the link in their inbox first
+      const verifyUrl = new URL('/auth/verify-email', request.url)
+      verifyUrl.searchParams.set('redirect', pathname)
+      return NextResponse.redirect(verifyUrl)
+    }
+
+    // Pass the verified user downstream
+    requestHeaders.set(SESSION_HEADERS.userId, user.id)
+    requestHeaders.set(SESSION_HEADERS.email, user.email)
+    requestHeaders.set(SESSION_HEADERS.role, user.role)
+    requestHeaders.set(SESSION_HEADERS.aal, user.aal)
   }
 
-  return NextResponse.next()
+  return NextResponse.next({ request: { headers: requestHeaders } })
 }
 
 // Helper function to get user from request
-function getUserFromRequest(request: NextRequest) {
-  // This is a placeholder - implement based on your auth provider
-  // For Supabase, you would check the session cookie
-  // For custom auth, you would check your session storage
-
+async function getUserFromRequest(request: NextRequest) {
   try {
-    // Example for Supabase
+    // Supabase access tokens are JWTs signed with the project's JWT secret
     if (isProviderEnabled('supabase')) {
-      const sessionCookie = request.cookies.get('sb-access-token')
-      if (sessionCookie) {
-        // Decode and validate the session
-        // Return user object if valid
-        return {
-          id: 'user-id',
-          email: 'user@example.com',
-          role: 'user'
-        }
+      const sessionCookie = request.cookies.get(ACCESS_TOKEN_COOKIE)
+      if (sessionCookie?.value) {
+        return await verifySessionToken(sessionCookie.value)
       }
     }
 
-
-    return null
+    return { status: 'invalid' } as const
   } catch (error) {
     console.error('Error getting user from request:', error)
-    return null
+    return { status: 'invalid' } as const
   }
 }
 
@@ -0,0 +1,12 @@
+-- Hashed one-time recovery codes for TOTP two-factor authentication.
+-- Only the service role reads or writes this table.
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, code_hash)
+);
+
+alter table public.mfa_recovery_codes enable row level security;
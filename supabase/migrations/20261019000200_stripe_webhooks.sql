@@ -0,0 +1,35 @@
+-- Stripe subscription state, kept in sync by the payments webhook.
+create table if not exists public.subscriptions (
+  id text primary key, -- Stripe subscription id
+  user_id uuid references auth.users (id) on delete set null,
+  customer_id text not null,
+  status text not null,
+  price_id text,
+  quantity integer not null default 1,
+  current_period_start timestamptz,
+  current_period_end timestamptz,
+  cancel_at_period_end boolean not null default false,
+  canceled_at timestamptz,
+  trial_end timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists subscriptions_user_id_idx on public.subscriptions (user_id);
+create index if not exists subscriptions_customer_id_idx on public.subscriptions (customer_id);
+
+alter table public.subscriptions enable row level security;
+
+create policy "Users can read their own subscriptions"
+  on public.subscriptions for select
+  using (auth.uid() = user_id);
+
+-- Ids of webhook events already applied, so repeat deliveries are skipped.
+-- Only the service role reads or writes this table.
+create table if not exists public.stripe_events (
+  id text primary key, -- Stripe event id
+  type text not null,
+  processed_at timestamptz not null default now()
+);
+
+alter table public.stripe_events enable row level security;
@@ -0,0 +1,14 @@
+-- One payment-provider customer per user, created at first checkout.
+create table if not exists public.customers (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  stripe_customer_id text not null unique,
+  email text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.customers enable row level security;
+
+create policy "Users can read their own customer record"
+  on public.customers for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,3 @@
+-- Products can be retired without deleting them; inactive products can't be bought.
+alter table public.products
+  add column if not exists active boolean not null default true;
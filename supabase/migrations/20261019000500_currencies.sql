@@ -0,0 +1,6 @@
+-- Prices are in major units of the row's currency (lowercase ISO 4217).
+alter table public.products
+  add column if not exists currency text not null default 'usd';
+
+alter table public.orders
+  add column if not exists currency text not null default 'usd';
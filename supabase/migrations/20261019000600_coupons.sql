@@ -0,0 +1,20 @@
+-- Discount codes for the mock payment provider. With Stripe, create
+-- promotion codes in the dashboard instead; this table is not consulted.
+create table if not exists public.coupons (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique, -- stored uppercase
+  percent_off numeric(5, 2) check (percent_off > 0 and percent_off <= 100),
+  amount_off numeric(12, 3) check (amount_off > 0), -- major units of currency
+  currency text,
+  minimum_amount numeric(12, 3),
+  active boolean not null default true,
+  expires_at timestamptz,
+  max_redemptions integer,
+  times_redeemed integer not null default 0,
+  created_at timestamptz not null default now(),
+  -- exactly one kind of discount, and fixed amounts need a currency
+  check ((percent_off is null) <> (amount_off is null)),
+  check (amount_off is null or currency is not null)
+);
+
+alter table public.coupons enable row level security;
@@ -0,0 +1,23 @@
+-- Orders can be refunded in full or in part.
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders
+  add constraint orders_status_check
+  check (status in ('pending', 'completed', 'cancelled', 'refunded', 'partially_refunded'));
+
+-- One row per provider refund, whether issued here or from the Stripe dashboard.
+create table if not exists public.refunds (
+  id text primary key, -- provider refund id
+  order_id uuid not null references public.orders (id) on delete cascade,
+  payment_intent_id text not null,
+  amount numeric(12, 3) not null, -- major units of currency
+  currency text not null,
+  status text not null,
+  reason text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists refunds_order_id_idx on public.refunds (order_id);
+
+alter table public.refunds enable row level security;
@@ -0,0 +1,26 @@
+-- Metered plans report usage against the subscription item, not the subscription.
+alter table public.subscriptions add column if not exists item_id text;
+
+-- Billable usage (e.g. API calls), recorded per request and pushed to Stripe in batches.
+create table if not exists public.usage_records (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  subscription_id text not null references public.subscriptions (id) on delete cascade,
+  subscription_item_id text not null,
+  quantity integer not null check (quantity > 0),
+  recorded_at timestamptz not null default now(),
+  pushed_at timestamptz, -- null until reported to the payment provider
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_records_unpushed_idx
+  on public.usage_records (recorded_at)
+  where pushed_at is null;
+create index if not exists usage_records_subscription_id_idx
+  on public.usage_records (subscription_id, recorded_at);
+
+alter table public.usage_records enable row level security;
+
+create policy "Users can read their own usage"
+  on public.usage_records for select
+  using (auth.uid() = user_id);
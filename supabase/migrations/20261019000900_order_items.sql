@@ -0,0 +1,88 @@
+-- Orders hold any number of products; each line keeps the price it was sold at.
+create table if not exists public.order_items (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  product_id uuid references public.products (id) on delete set null,
+  product_name text not null, -- snapshot, so the line survives product edits
+  quantity integer not null check (quantity > 0),
+  unit_price numeric(12, 3) not null, -- major units of currency
+  currency text not null,
+  line_total numeric(12, 3) not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_items_order_id_idx on public.order_items (order_id);
+
+alter table public.order_items enable row level security;
+
+create policy "Users can read items of their own orders"
+  on public.order_items for select
+  using (exists (
+    select 1 from public.orders
+    where orders.id = order_items.order_id and orders.user_id = auth.uid()
+  ));
+
+-- Existing single-product orders become one line each.
+insert into public.order_items (order_id, product_id, product_name, quantity, unit_price, currency, line_total)
+select o.id, o.product_id, coalesce(p.name, 'Unknown product'), o.quantity,
+  o.total / o.quantity, o.currency, o.total
+from public.orders o
+left join public.products p on p.id = o.product_id
+where o.product_id is not null
+  and o.quantity > 0
+  and not exists (select 1 from public.order_items i where i.order_id = o.id);
+
+-- Kept for old rows only; new orders list their products in order_items.
+alter table public.orders alter column product_id drop not null;
+alter table public.orders alter column quantity drop not null;
+
+-- Create an order and its lines in one transaction, pricing every line from the
+-- products table. p_items is [{ "product_id": uuid, "quantity": integer }].
+create or replace function public.create_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_stripe_payment_intent_id text default null
+) returns uuid
+language plpgsql
+as $$
+declare
+  v_order_id uuid;
+  v_currencies text[];
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Items are required' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+    left join public.products p on p.id = item.product_id and p.active
+    where p.id is null or item.quantity is null or item.quantity < 1
+  ) then
+    raise exception 'Order contains unknown, inactive or invalid items' using errcode = '22023';
+  end if;
+
+  select array_agg(distinct p.currency) into v_currencies
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  if array_length(v_currencies, 1) > 1 then
+    raise exception 'All items must use the same currency' using errcode = '22023';
+  end if;
+
+  insert into public.orders (user_id, total, currency, status, stripe_payment_intent_id)
+  values (p_user_id, 0, v_currencies[1], 'pending', p_stripe_payment_intent_id)
+  returning id into v_order_id;
+
+  insert into public.order_items (order_id, product_id, product_name, quantity, unit_price, currency, line_total)
+  select v_order_id, p.id, p.name, item.quantity, p.price, p.currency, p.price * item.quantity
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  update public.orders
+  set total = (select sum(line_total) from public.order_items where order_id = v_order_id)
+  where id = v_order_id;
+
+  return v_order_id;
+end;
+$$;
@@ -0,0 +1,115 @@
+-- Order lifecycle: pending -> paid -> fulfilled -> completed, with cancelled and
+-- refunded branches. Allowed transitions are enforced in lib/orders.ts.
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders
+  add constraint orders_status_check
+  check (status in ('pending', 'paid', 'fulfilled', 'completed', 'cancelled', 'refunded', 'partially_refunded'));
+
+-- Every status an order has been in, who moved it there and why.
+create table if not exists public.order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  from_status text, -- null for the status the order was created with
+  to_status text not null,
+  actor_id uuid references auth.users (id) on delete set null, -- null for payment webhooks
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_id_idx
+  on public.order_status_history (order_id, created_at);
+
+alter table public.order_status_history enable row level security;
+
+create policy "Users can read the history of their own orders"
+  on public.order_status_history for select
+  using (exists (
+    select 1 from public.orders
+    where orders.id = order_status_history.order_id and orders.user_id = auth.uid()
+  ));
+
+-- Existing orders start their history at their current status.
+insert into public.order_status_history (order_id, from_status, to_status, actor_id, reason, created_at)
+select o.id, null, o.status, null, 'Recorded when order history was introduced', o.updated_at
+from public.orders o
+where not exists (select 1 from public.order_status_history h where h.order_id = o.id);
+
+-- Move an order from p_from to p_to and record it, in one transaction.
+-- Returns false when the order is no longer in p_from (a concurrent change won).
+create or replace function public.transition_order_status(
+  p_order_id uuid,
+  p_from text,
+  p_to text,
+  p_actor_id uuid default null,
+  p_reason text default null
+) returns boolean
+language plpgsql
+as $$
+begin
+  update public.orders
+  set status = p_to, updated_at = now()
+  where id = p_order_id and status = p_from;
+
+  if not found then
+    return false;
+  end if;
+
+  insert into public.order_status_history (order_id, from_status, to_status, actor_id, reason)
+  values (p_order_id, p_from, p_to, p_actor_id, p_reason);
+
+  return true;
+end;
+$$;
+
+-- New orders record their initial status too.
+create or replace function public.create_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_stripe_payment_intent_id text default null
+) returns uuid
+language plpgsql
+as $$
+declare
+  v_order_id uuid;
+  v_currencies text[];
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Items are required' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+    left join public.products p on p.id = item.product_id and p.active
+    where p.id is null or item.quantity is null or item.quantity < 1
+  ) then
+    raise exception 'Order contains unknown, inactive or invalid items' using errcode = '22023';
+  end if;
+
+  select array_agg(distinct p.currency) into v_currencies
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  if array_length(v_currencies, 1) > 1 then
+    raise exception 'All items must use the same currency' using errcode = '22023';
+  end if;
+
+  insert into public.orders (user_id, total, currency, status, stripe_payment_intent_id)
+  values (p_user_id, 0, v_currencies[1], 'pending', p_stripe_payment_intent_id)
+  returning id into v_order_id;
+
+  insert into public.order_items (order_id, product_id, product_name, quantity, unit_price, currency, line_total)
+  select v_order_id, p.id, p.name, item.quantity, p.price, p.currency, p.price * item.quantity
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  update public.orders
+  set total = (select sum(line_total) from public.order_items where order_id = v_order_id)
+  where id = v_order_id;
+
+  insert into public.order_status_history (order_id, from_status, to_status, actor_id)
+  values (v_order_id, null, 'pending', p_user_id);
+
+  return v_order_id;
+end;
+$$;
@@ -0,0 +1,141 @@
+-- Stock levels for products that are counted; untracked products never run out.
+alter table public.products
+  add column if not exists track_inventory boolean not null default false,
+  add column if not exists stock_quantity integer not null default 0 check (stock_quantity >= 0);
+
+create index if not exists products_low_stock_idx
+  on public.products (stock_quantity)
+  where track_inventory;
+
+-- Set while a pending order holds the line's stock. Payment keeps the stock
+-- taken; cancelling puts it back.
+alter table public.order_items
+  add column if not exists stock_reserved boolean not null default false;
+
+-- Return the stock still held by an order's lines.
+create or replace function public.release_order_stock(p_order_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  with released as (
+    update public.order_items
+    set stock_reserved = false
+    where order_id = p_order_id and stock_reserved
+    returning product_id, quantity
+  )
+  update public.products p
+  set stock_quantity = p.stock_quantity + r.quantity, updated_at = now()
+  from (select product_id, sum(quantity) as quantity from released group by product_id) r
+  where p.id = r.product_id;
+end;
+$$;
+
+create or replace function public.transition_order_status(
+  p_order_id uuid,
+  p_from text,
+  p_to text,
+  p_actor_id uuid default null,
+  p_reason text default null
+) returns boolean
+language plpgsql
+as $$
+begin
+  update public.orders
+  set status = p_to, updated_at = now()
+  where id = p_order_id and status = p_from;
+
+  if not found then
+    return false;
+  end if;
+
+  if p_to = 'cancelled' then
+    perform public.release_order_stock(p_order_id);
+  elsif p_to = 'paid' then
+    -- Sold: the reserved stock is gone for good
+    update public.order_items set stock_reserved = false where order_id = p_order_id;
+  end if;
+
+  insert into public.order_status_history (order_id, from_status, to_status, actor_id, reason)
+  values (p_order_id, p_from, p_to, p_actor_id, p_reason);
+
+  return true;
+end;
+$$;
+
+-- Reserve stock while creating the order. Each tracked product is decremented
+-- only if enough is left; the row lock makes concurrent orders queue up, and a
+-- shortfall rolls back the whole order.
+create or replace function public.create_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_stripe_payment_intent_id text default null
+) returns uuid
+language plpgsql
+as $$
+declare
+  v_order_id uuid;
+  v_currencies text[];
+  v_line record;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Items are required' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+    left join public.products p on p.id = item.product_id and p.active
+    where p.id is null or item.quantity is null or item.quantity < 1
+  ) then
+    raise exception 'Order contains unknown, inactive or invalid items' using errcode = '22023';
+  end if;
+
+  select array_agg(distinct p.currency) into v_currencies
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  if array_length(v_currencies, 1) > 1 then
+    raise exception 'All items must use the same currency' using errcode = '22023';
+  end if;
+
+  -- Product id order keeps concurrent orders from deadlocking on each other
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+    join public.products p on p.id = item.product_id
+    where p.track_inventory
+    group by item.product_id
+    order by item.product_id
+  loop
+    update public.products
+    set stock_quantity = stock_quantity - v_line.quantity, updated_at = now()
+    where id = v_line.product_id and stock_quantity >= v_line.quantity;
+
+    if not found then
+      raise exception 'Not enough stock'
+        using errcode = 'P0001', hint = 'insufficient_stock', detail = v_line.product_id::text;
+    end if;
+  end loop;
+
+  insert into public.orders (user_id, total, currency, status, stripe_payment_intent_id)
+  values (p_user_id, 0, v_currencies[1], 'pending', p_stripe_payment_intent_id)
+  returning id into v_order_id;
+
+  insert into public.order_items (
+    order_id, product_id, product_name, quantity, unit_price, currency, line_total, stock_reserved
+  )
+  select v_order_id, p.id, p.name, item.quantity, p.price, p.currency, p.price * item.quantity, p.track_inventory
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  update public.orders
+  set total = (select sum(line_total) from public.order_items where order_id = v_order_id)
+  where id = v_order_id;
+
+  insert into public.order_status_history (order_id, from_status, to_status, actor_id)
+  values (v_order_id, null, 'pending', p_user_id);
+
+  return v_order_id;
+end;
+$$;
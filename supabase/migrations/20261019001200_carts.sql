@@ -0,0 +1,77 @@
+-- One cart per signed-in user, or per guest identified by a random cookie token.
+create table if not exists public.carts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid unique references auth.users (id) on delete cascade,
+  guest_token text unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint carts_owner_check check (user_id is not null or guest_token is not null)
+);
+
+create table if not exists public.cart_items (
+  id uuid primary key default gen_random_uuid(),
+  cart_id uuid not null references public.carts (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (cart_id, product_id)
+);
+
+-- Guest carts are reached through the API only, with the service role.
+alter table public.carts enable row level security;
+alter table public.cart_items enable row level security;
+
+create policy "Users can read their own cart"
+  on public.carts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can read their own cart items"
+  on public.cart_items for select
+  using (exists (
+    select 1 from public.carts
+    where carts.id = cart_items.cart_id and carts.user_id = auth.uid()
+  ));
+
+-- Move a guest cart to a user who just signed in. The guest cart becomes the
+-- user's cart if they have none; otherwise its quantities are added to theirs
+-- and it is deleted. Returns the user's cart id (null if neither cart exists).
+create or replace function public.merge_guest_cart(p_guest_token text, p_user_id uuid)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_guest_cart_id uuid;
+  v_user_cart_id uuid;
+begin
+  select id into v_user_cart_id from public.carts where user_id = p_user_id for update;
+
+  select id into v_guest_cart_id
+  from public.carts
+  where guest_token = p_guest_token and user_id is null
+  for update;
+
+  if v_guest_cart_id is null then
+    return v_user_cart_id;
+  end if;
+
+  if v_user_cart_id is null then
+    update public.carts
+    set user_id = p_user_id, guest_token = null, updated_at = now()
+    where id = v_guest_cart_id;
+    return v_guest_cart_id;
+  end if;
+
+  insert into public.cart_items (cart_id, product_id, quantity)
+  select v_user_cart_id, product_id, quantity
+  from public.cart_items
+  where cart_id = v_guest_cart_id
+  on conflict (cart_id, product_id)
+  do update set quantity = public.cart_items.quantity + excluded.quantity, updated_at = now();
+
+  delete from public.carts where id = v_guest_cart_id;
+  update public.carts set updated_at = now() where id = v_user_cart_id;
+
+  return v_user_cart_id;
+end;
+$$;
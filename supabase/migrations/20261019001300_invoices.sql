@@ -0,0 +1,63 @@
+-- One invoice per paid order. Numbers come from a single counter row that is
+-- locked while it is incremented, so they are sequential without gaps (a
+-- Postgres sequence can skip values when a transaction rolls back).
+create table if not exists public.invoice_counter (
+  id boolean primary key default true check (id),
+  last_number bigint not null default 0
+);
+
+insert into public.invoice_counter (id, last_number)
+values (true, 0)
+on conflict (id) do nothing;
+
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null unique references public.orders (id) on delete restrict,
+  number text not null unique,
+  -- Percentage included in the order's prices, fixed when the invoice is issued
+  tax_rate numeric(5, 2) not null default 0 check (tax_rate >= 0),
+  issued_at timestamptz not null default now()
+);
+
+alter table public.invoice_counter enable row level security;
+alter table public.invoices enable row level security;
+
+create policy "Users can read invoices for their own orders"
+  on public.invoices for select
+  using (exists (
+    select 1 from public.orders
+    where orders.id = invoices.order_id and orders.user_id = auth.uid()
+  ));
+
+-- The order's invoice, issuing it with the next number on first use. The order
+-- row is locked first so two concurrent requests can't both take a number.
+create or replace function public.issue_invoice(p_order_id uuid, p_tax_rate numeric default 0)
+returns public.invoices
+language plpgsql
+as $$
+declare
+  v_invoice public.invoices;
+  v_number bigint;
+begin
+  perform 1 from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id using hint = 'order_not_found';
+  end if;
+
+  select * into v_invoice from public.invoices where order_id = p_order_id;
+  if found then
+    return v_invoice;
+  end if;
+
+  update public.invoice_counter
+  set last_number = last_number + 1
+  where id
+  returning last_number into v_number;
+
+  insert into public.invoices (order_id, number, tax_rate)
+  values (p_order_id, 'INV-' || lpad(v_number::text, 6, '0'), p_tax_rate)
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
@@ -0,0 +1,21 @@
+-- Second-factor attempts at sign-in, counted per factor (one per user) so
+-- TOTP and recovery codes can't be guessed after a password is stolen.
+-- Only the service role reads or writes this table.
+create table if not exists public.mfa_attempts (
+  id uuid primary key default gen_random_uuid(),
+  factor_id text not null,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists mfa_attempts_factor_id_idx
+  on public.mfa_attempts (factor_id, attempted_at);
+
+alter table public.mfa_attempts enable row level security;
+
+-- Recovery codes are now stored as salted PBKDF2 hashes, so the same code
+-- no longer hashes to the same value and the pair can't be unique
+alter table public.mfa_recovery_codes
+  drop constraint if exists mfa_recovery_codes_user_id_code_hash_key;
+
+create index if not exists mfa_recovery_codes_user_id_idx
+  on public.mfa_recovery_codes (user_id) where used_at is null;
@@ -0,0 +1,76 @@
+-- The payment intent id is only ever set by payment webhooks, from the
+-- provider's own records, so orders can no longer be created with one.
+drop function if exists public.create_order(uuid, jsonb, text);
+
+create or replace function public.create_order(
+  p_user_id uuid,
+  p_items jsonb
+) returns uuid
+language plpgsql
+as $$
+declare
+  v_order_id uuid;
+  v_currencies text[];
+  v_line record;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Items are required' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+    left join public.products p on p.id = item.product_id and p.active
+    where p.id is null or item.quantity is null or item.quantity < 1
+  ) then
+    raise exception 'Order contains unknown, inactive or invalid items' using errcode = '22023';
+  end if;
+
+  select array_agg(distinct p.currency) into v_currencies
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  if array_length(v_currencies, 1) > 1 then
+    raise exception 'All items must use the same currency' using errcode = '22023';
+  end if;
+
+  -- Product id order keeps concurrent orders from deadlocking on each other
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+    join public.products p on p.id = item.product_id
+    where p.track_inventory
+    group by item.product_id
+    order by item.product_id
+  loop
+    update public.products
+    set stock_quantity = stock_quantity - v_line.quantity, updated_at = now()
+    where id = v_line.product_id and stock_quantity >= v_line.quantity;
+
+    if not found then
+      raise exception 'Not enough stock'
+        using errcode = 'P0001', hint = 'insufficient_stock', detail = v_line.product_id::text;
+    end if;
+  end loop;
+
+  insert into public.orders (user_id, total, currency, status)
+  values (p_user_id, 0, v_currencies[1], 'pending')
+  returning id into v_order_id;
+
+  insert into public.order_items (
+    order_id, product_id, product_name, quantity, unit_price, currency, line_total, stock_reserved
+  )
+  select v_order_id, p.id, p.name, item.quantity, p.price, p.currency, p.price * item.quantity, p.track_inventory
+  from jsonb_to_recordset(p_items) as item (product_id uuid, quantity integer)
+  join public.products p on p.id = item.product_id;
+
+  update public.orders
+  set total = (select sum(line_total) from public.order_items where order_id = v_order_id)
+  where id = v_order_id;
+
+  insert into public.order_status_history (order_id, from_status, to_status, actor_id)
+  values (v_order_id, null, 'pending', p_user_id);
+
+  return v_order_id;
+end;
+$$;
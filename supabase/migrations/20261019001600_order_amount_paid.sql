@@ -0,0 +1,5 @@
+-- What the customer was actually charged, after any promotion discount. Set by
+-- the payment webhook when the order is paid; refunds are limited to it.
+-- Null for orders paid before it was recorded, which were charged their total.
+alter table public.orders
+  add column if not exists amount_paid numeric(12, 3) check (amount_paid >= 0);
@@ -0,0 +1,58 @@
+-- Usage pushes claim their rows first, so two runs never report the same
+-- usage. Rows pushed together share a push key, which is also the payment
+-- provider's idempotency key: a push that died before marking its rows is
+-- retried whole under the same key, and the provider doesn't count it twice.
+alter table public.usage_records
+  add column if not exists pushing_at timestamptz, -- when the current claim was made
+  add column if not exists push_key uuid;
+
+create index if not exists usage_records_push_key_idx
+  on public.usage_records (push_key)
+  where pushed_at is null;
+
+-- Claim up to p_limit unclaimed rows, one push key per subscription item, plus
+-- every row of any claim older than p_stale_after. Returns the claimed rows.
+create or replace function public.claim_usage_records(
+  p_limit integer,
+  p_stale_after interval default interval '10 minutes'
+) returns table (
+  id uuid,
+  subscription_item_id text,
+  quantity integer,
+  recorded_at timestamptz,
+  push_key uuid
+)
+language plpgsql
+as $$
+begin
+  -- A concurrent run that claimed these first has refreshed pushing_at, so
+  -- the re-checked condition skips them once their lock is released
+  return query
+  update public.usage_records u
+  set pushing_at = now()
+  where u.pushed_at is null
+    and u.push_key is not null
+    and u.pushing_at < now() - p_stale_after
+  returning u.id, u.subscription_item_id, u.quantity, u.recorded_at, u.push_key;
+
+  return query
+  with claimable as (
+    select r.id, r.subscription_item_id
+    from public.usage_records r
+    where r.pushed_at is null and r.push_key is null
+    order by r.recorded_at
+    limit p_limit
+    for update skip locked
+  ), keys as (
+    select c.subscription_item_id, gen_random_uuid() as push_key
+    from claimable c
+    group by c.subscription_item_id
+  )
+  update public.usage_records u
+  set pushing_at = now(), push_key = k.push_key
+  from claimable c
+  join keys k on k.subscription_item_id = c.subscription_item_id
+  where u.id = c.id
+  returning u.id, u.subscription_item_id, u.quantity, u.recorded_at, u.push_key;
+end;
+$$;
@@ -0,0 +1,21 @@
+-- These functions trust their arguments: they skip the ownership, role and
+-- payment checks the API routes make before calling them. Postgres lets
+-- PUBLIC execute new functions and Supabase exposes them over RPC, so only
+-- the service role, which the server uses, may call them.
+revoke execute on function public.create_order(uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.create_order(uuid, jsonb) to service_role;
+
+revoke execute on function public.transition_order_status(uuid, text, text, uuid, text) from public, anon, authenticated;
+grant execute on function public.transition_order_status(uuid, text, text, uuid, text) to service_role;
+
+revoke execute on function public.release_order_stock(uuid) from public, anon, authenticated;
+grant execute on function public.release_order_stock(uuid) to service_role;
+
+revoke execute on function public.merge_guest_cart(text, uuid) from public, anon, authenticated;
+grant execute on function public.merge_guest_cart(text, uuid) to service_role;
+
+revoke execute on function public.issue_invoice(uuid, numeric) from public, anon, authenticated;
+grant execute on function public.issue_invoice(uuid, numeric) to service_role;
+
+revoke execute on function public.claim_usage_records(integer, interval) from public, anon, authenticated;
+grant execute on function public.claim_usage_records(integer, interval) to service_role;
@@ -0,0 +1,13 @@
+-- Count a completed checkout against a coupon's max_redemptions. The mock
+-- payment provider calls this; Stripe counts its own promotion codes.
+create or replace function public.redeem_coupon(p_code text)
+returns void
+language sql
+as $$
+  update public.coupons
+  set times_redeemed = times_redeemed + 1
+  where code = upper(p_code);
+$$;
+
+revoke execute on function public.redeem_coupon(text) from public, anon, authenticated;
+grant execute on function public.redeem_coupon(text) to service_role;
@@ -0,0 +1,33 @@
+-- Claim one use of a coupon in a single update, so concurrent checkouts cannot
+-- take it past max_redemptions. Returns false when the code is used up.
+-- release_coupon gives the use back when the checkout is not paid.
+drop function if exists public.redeem_coupon(text);
+
+create function public.redeem_coupon(p_code text)
+returns boolean
+language sql
+as $$
+  with redeemed as (
+    update public.coupons
+    set times_redeemed = times_redeemed + 1
+    where code = upper(p_code)
+      and (max_redemptions is null or times_redeemed < max_redemptions)
+    returning id
+  )
+  select exists (select 1 from redeemed);
+$$;
+
+create or replace function public.release_coupon(p_code text)
+returns void
+language sql
+as $$
+  update public.coupons
+  set times_redeemed = times_redeemed - 1
+  where code = upper(p_code) and times_redeemed > 0;
+$$;
+
+revoke execute on function public.redeem_coupon(text) from public, anon, authenticated;
+grant execute on function public.redeem_coupon(text) to service_role;
+
+revoke execute on function public.release_coupon(text) from public, anon, authenticated;
+grant execute on function public.release_coupon(text) to service_role;
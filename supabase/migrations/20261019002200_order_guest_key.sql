@@ -0,0 +1,8 @@
+-- Guest orders remember the cart token or address that placed them, so
+-- checkout can cap how many unpaid orders, and so how much reserved stock,
+-- one guest holds at a time.
+alter table public.orders add column if not exists guest_key text;
+
+create index if not exists orders_pending_guest_key_idx
+  on public.orders (guest_key)
+  where status = 'pending';
@@ -0,0 +1,29 @@
+/**
+ * Session Token Helpers
+ *
+ * Signs access tokens the way Supabase Auth does, so tests exercise the real
+ * verification in lib/session.ts. Mock lib/config with TEST_JWT_SECRET as the
+ * Supabase jwtSecret for the tokens to verify.
+ */
+
+export const TEST_JWT_SECRET = 'test-jwt-secret-with-enough-length'
+
+export const encode = (value: string | Uint8Array) => Buffer.from(value).toString('base64url')
+
+// HS256 unless `alg` asks for something else, to test what verification rejects
+export const signToken = async (
+  claims: Record<string, any>,
+  { alg = 'HS256', secret = TEST_JWT_SECRET }: { alg?: string; secret?: string } = {}
+) => {
+  const header = encode(JSON.stringify({ alg, typ: 'JWT' }))
+  const payload = encode(JSON.stringify(claims))
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: alg === 'HS512' ? 'SHA-512' : 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${header}.${payload}`))
+  return `${header}.${payload}.${encode(new Uint8Array(signature))}`
+}
@@ -0,0 +1,81 @@
+/**
+ * Supabase Client Fake
+ *
+ * Stands in for the query builder in unit tests. Each table has a queue of
+ * results; every query against the table, however it is chained, resolves to
+ * the next one ({ data: null, error: null } once the queue is empty). Calls
+ * are recorded so tests can check what was written. Mock lib/supabase with
+ * supabaseFake.client; each test file gets its own instance.
+ */
+
+import { vi } from 'vitest'
+
+export interface QueryResult {
+  data?: any
+  error?: any
+  count?: number | null
+}
+
+export interface QueryCall {
+  table: string
+  method: string
+  args: any[]
+}
+
+export const createSupabaseFake = () => {
+  const results = new Map<string, QueryResult[]>()
+  const calls: QueryCall[] = []
+
+  const next = (table: string) => {
+    const result = results.get(table)?.shift()
+    return Promise.resolve({ data: null, error: null, ...result })
+  }
+
+  const query = (table: string) => {
+    let pending: Promise<any> | null = null
+    const settle = () => (pending = pending || next(table))
+
+    const builder: any = new Proxy({}, {
+      get(_, method: string) {
+        if (method === 'then') {
+          return (resolve: any, reject: any) => settle().then(resolve, reject)
+        }
+        if (method === 'single' || method === 'maybeSingle') {
+          return () => settle()
+        }
+        return (...args: any[]) => {
+          calls.push({ table, method, args })
+          return builder
+        }
+      }
+    })
+    return builder
+  }
+
+  const client = {
+    from: vi.fn((table: string) => query(table)),
+    rpc: vi.fn(async (_name: string, _args?: Record<string, any>): Promise<QueryResult> => ({ data: null, error: null }))
+  }
+
+  return {
+    client,
+    calls,
+    // Queue results for the next queries against `table`, in order
+    queue(table: string, ...tableResults: QueryResult[]) {
+      results.set(table, [...(results.get(table) || []), ...tableResults])
+    },
+    // Recorded calls of one builder method on one table
+    callsTo(table: string, method: string) {
+      return calls.filter((call) => call.table === table && call.method === method)
+    },
+    reset() {
+      results.clear()
+      calls.length = 0
+      client.from.mockClear()
+      client.rpc.mockReset()
+      client.rpc.mockResolvedValue({ data: null, error: null })
+    }
+  }
+}
+
+export const supabaseFake = createSupabaseFake()